@@ -4,15 +4,39 @@
     // @ts-ignore
     const vscode = acquireVsCodeApi();
 
-    /** @type {Array<{name: string, version: string, latestVersion?: string}>} */
+    /**
+     * @typedef {Object} PackageRow
+     * @property {string} name
+     * @property {string} version
+     * @property {string} [latestVersion]
+     * @property {boolean} [hasUpdate]
+     * @property {string} [updateType]
+     * @property {string} [channel]
+     * @property {string} [group]
+     * @property {{type: string, specifier?: string, reason?: string}} [policy]
+     * @property {boolean} [stale]
+     * @property {string} [checkError]
+     * @property {string[]} [conflicts]
+     * @property {string} [summary]
+     * @property {boolean} [editable]
+     * @property {string} [directUrl]
+     */
+
+    /** @type {PackageRow[]} */
     let packages = [];
 
     /** @type {Set<string>} */
     let selectedPackages = new Set();
 
+    /** @type {Set<string>} Packages whose failed update check is being retried */
+    let retryingPackages = new Set();
+
     /** @type {string} */
     let searchFilter = '';
 
+    /** @type {'all'|'updates'|'major'|'minor'|'patch'} */
+    let updateFilter = 'all';
+
     /** @type {boolean} */
     let isLoading = false;
 
@@ -25,6 +49,18 @@
     /** @type {boolean} */
     let isCheckingUpdates = false;
 
+    /** @type {string} */
+    let backend = '';
+
+    /** @type {Record<string, string>} */
+    const backendLabels = {
+        pip: 'pip',
+        uv: 'uv',
+        poetry: 'Poetry project',
+        conda: 'conda',
+        pipenv: 'Pipenv project'
+    };
+
     // DOM Elements
     const packageListEl = document.getElementById('package-list');
     const searchInputEl = document.getElementById('search-input');
@@ -37,6 +73,9 @@
     const addBtnEl = document.getElementById('add-btn');
     const searchPypiBtnEl = document.getElementById('search-pypi-btn');
     const exportBtnEl = document.getElementById('export-btn');
+    const backendLabelEl = document.getElementById('backend-label');
+    const filterChipEls = document.querySelectorAll('.filter-chip');
+    const selectByTypeBtnEls = document.querySelectorAll('[data-select-type]');
 
     // Initialize
     init();
@@ -50,6 +89,8 @@
         addBtnEl?.addEventListener('click', handleAddPackage);
         searchPypiBtnEl?.addEventListener('click', handleSearchPyPI);
         exportBtnEl?.addEventListener('click', handleExportRequirements);
+        filterChipEls.forEach(chip => chip.addEventListener('click', handleFilterChip));
+        selectByTypeBtnEls.forEach(btn => btn.addEventListener('click', handleSelectByType));
 
         // Listen for messages from extension
         window.addEventListener('message', handleMessage);
@@ -65,7 +106,11 @@
             case 'packages':
                 const wasEmpty = packages.length === 0;
                 packages = message.data || [];
+                retryingPackages.clear();
                 hasRequirements = message.hasRequirements || false;
+                if (message.backend) {
+                    backend = message.backend;
+                }
                 errorMessage = null;
                 // Only clear selections on fresh load, not incremental updates
                 if (wasEmpty) {
@@ -216,25 +261,54 @@
     }
 
     function getFilteredPackages() {
-        if (!searchFilter) {
-            return packages;
-        }
         const filter = searchFilter.toLowerCase();
-        return packages.filter(pkg => pkg.name.toLowerCase().includes(filter));
+        return packages.filter(pkg => {
+            if (filter && !pkg.name.toLowerCase().includes(filter)) {
+                return false;
+            }
+            if (updateFilter === 'updates') {
+                return !!pkg.hasUpdate;
+            }
+            if (updateFilter !== 'all') {
+                return !!pkg.hasUpdate && pkg.updateType === updateFilter;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Tooltip text for a package's update policy
+     * @param {{type: string, specifier?: string, reason?: string} | undefined} policy
+     * @returns {string}
+     */
+    function describePolicy(policy) {
+        if (!policy) {
+            return '';
+        }
+        const label = policy.type === 'ignore'
+            ? 'Updates ignored'
+            : (policy.type === 'pin' ? 'Pinned to ' : 'Capped at ') + policy.specifier;
+        return label + ' by the workspace update policy' + (policy.reason ? ': ' + policy.reason : '');
     }
 
     /**
      * Creates a package row element using safe DOM methods
-     * @param {{name: string, version: string, latestVersion?: string}} pkg
+     * @param {PackageRow} pkg
      * @returns {HTMLElement}
      */
     function createPackageRowElement(pkg) {
-        const hasUpdate = pkg.latestVersion && pkg.latestVersion !== pkg.version;
+        const hasUpdate = !!pkg.hasUpdate;
+        const isIgnored = !!pkg.policy && pkg.policy.type === 'ignore';
+        const isChecking = retryingPackages.has(pkg.name)
+            || (isCheckingUpdates && !pkg.latestVersion && !pkg.checkError && !isIgnored);
+        const checkFailed = !!pkg.checkError && !isChecking;
         const isSelected = selectedPackages.has(pkg.name);
 
         const row = document.createElement('div');
         row.className = 'package-row' + (hasUpdate ? ' has-update' : '') + (isSelected ? ' selected' : '');
         row.dataset.name = pkg.name;
+        // Read by the webview/context menu contributions
+        row.dataset.vscodeContext = JSON.stringify({ webviewSection: 'package', packageName: pkg.name, preventDefaultContextMenuItems: true });
 
         // Checkbox column
         const checkboxCol = document.createElement('div');
@@ -258,10 +332,55 @@
         const nameSpan = document.createElement('span');
         nameSpan.className = 'package-name';
         nameSpan.dataset.name = pkg.name;
-        nameSpan.title = 'Open on PyPI';
+        nameSpan.title = pkg.summary ? pkg.summary + '\nShow details' : 'Show details';
         nameSpan.textContent = pkg.name;
         nameSpan.addEventListener('click', handlePackageNameClick);
         nameCol.appendChild(nameSpan);
+
+        // Conda environments mix conda and pip installs, point out the pip ones
+        if (pkg.channel === 'pypi') {
+            const pipBadge = document.createElement('span');
+            pipBadge.className = 'package-tag pip';
+            pipBadge.textContent = 'pip';
+            pipBadge.title = 'Installed with pip inside the conda environment';
+            nameCol.appendChild(pipBadge);
+        } else if (pkg.channel) {
+            nameSpan.title = 'Show details (conda channel: ' + pkg.channel + ')';
+        }
+
+        // Installed from a local checkout
+        if (pkg.editable) {
+            const editableBadge = document.createElement('span');
+            editableBadge.className = 'package-tag editable';
+            editableBadge.textContent = 'editable';
+            editableBadge.title = 'Editable install' + (pkg.directUrl ? ' from ' + pkg.directUrl : '');
+            nameCol.appendChild(editableBadge);
+        }
+
+        // Pipfile section of the package
+        if (pkg.group) {
+            const groupBadge = document.createElement('span');
+            groupBadge.className = 'package-tag ' + pkg.group;
+            groupBadge.textContent = pkg.group;
+            groupBadge.title = pkg.group === 'dev' ? 'Development package (Pipfile dev-packages)' : 'Default package (Pipfile packages)';
+            nameCol.appendChild(groupBadge);
+        }
+
+        // Workspace update policy holding the package back
+        if (pkg.policy) {
+            const lockIcon = document.createElement('span');
+            lockIcon.className = 'codicon codicon-lock policy-lock';
+            lockIcon.title = describePolicy(pkg.policy);
+            nameCol.appendChild(lockIcon);
+        }
+
+        // Requirements pip check found broken
+        if (pkg.conflicts && pkg.conflicts.length) {
+            const conflictIcon = document.createElement('span');
+            conflictIcon.className = 'codicon codicon-warning conflict-icon';
+            conflictIcon.title = pkg.conflicts.join('\n');
+            nameCol.appendChild(conflictIcon);
+        }
         row.appendChild(nameCol);
 
         // Version column
@@ -274,7 +393,7 @@
         const latestCol = document.createElement('div');
         latestCol.className = 'col-latest' + (hasUpdate ? ' has-update' : '');
 
-        if (isCheckingUpdates && !pkg.latestVersion) {
+        if (isChecking) {
             // Show spinner while checking
             const spinner = document.createElement('span');
             spinner.className = 'checking-spinner';
@@ -289,6 +408,14 @@
             versionLink.title = 'Click to pick a specific version';
             versionLink.addEventListener('click', handlePickVersion);
             latestCol.appendChild(versionLink);
+
+            if (pkg.stale) {
+                const staleTag = document.createElement('span');
+                staleTag.className = 'package-tag stale';
+                staleTag.textContent = 'stale';
+                staleTag.title = 'From cached index data past its expiry (offline mode or index unreachable)';
+                latestCol.appendChild(staleTag);
+            }
         } else {
             latestCol.textContent = '-';
         }
@@ -299,12 +426,23 @@
         statusCol.className = 'col-status';
         const statusBadge = document.createElement('span');
 
-        if (isCheckingUpdates && !pkg.latestVersion) {
+        if (isChecking) {
             statusBadge.className = 'status-badge checking';
             statusBadge.textContent = 'Checking';
+        } else if (checkFailed) {
+            statusBadge.className = 'status-badge failed';
+            statusBadge.textContent = 'Check failed';
+            statusBadge.title = pkg.checkError || '';
+        } else if (isIgnored) {
+            statusBadge.className = 'status-badge ignored';
+            statusBadge.textContent = 'Ignored';
+            statusBadge.title = describePolicy(pkg.policy);
         } else if (hasUpdate) {
-            statusBadge.className = 'status-badge outdated';
-            statusBadge.textContent = 'Outdated';
+            statusBadge.className = 'status-badge outdated' + (pkg.updateType ? ' ' + pkg.updateType : '');
+            statusBadge.textContent = pkg.updateType
+                ? pkg.updateType.charAt(0).toUpperCase() + pkg.updateType.slice(1)
+                : 'Outdated';
+            statusBadge.title = (pkg.updateType ? pkg.updateType + ' update: ' : 'Update: ') + pkg.version + ' → ' + pkg.latestVersion;
         } else {
             statusBadge.className = 'status-badge current';
             statusBadge.textContent = 'Current';
@@ -326,6 +464,28 @@
             updateBtn.appendChild(updateIcon);
             updateBtn.addEventListener('click', handleUpdateSingle);
             actionsCol.appendChild(updateBtn);
+
+            const notesBtn = document.createElement('button');
+            notesBtn.className = 'action-btn notes-btn';
+            notesBtn.dataset.name = pkg.name;
+            notesBtn.title = "What's new";
+            const notesIcon = document.createElement('span');
+            notesIcon.className = 'codicon codicon-book';
+            notesBtn.appendChild(notesIcon);
+            notesBtn.addEventListener('click', handleWhatsNew);
+            actionsCol.appendChild(notesBtn);
+        }
+
+        if (checkFailed) {
+            const retryBtn = document.createElement('button');
+            retryBtn.className = 'action-btn retry-btn';
+            retryBtn.dataset.name = pkg.name;
+            retryBtn.title = 'Retry update check';
+            const retryIcon = document.createElement('span');
+            retryIcon.className = 'codicon codicon-refresh';
+            retryBtn.appendChild(retryIcon);
+            retryBtn.addEventListener('click', handleRetryCheck);
+            actionsCol.appendChild(retryBtn);
         }
 
         const removeBtn = document.createElement('button');
@@ -368,7 +528,7 @@
         const el = /** @type {HTMLElement} */ (e.target);
         const name = el.dataset.name;
         if (name) {
-            vscode.postMessage({ type: 'openPyPI', payload: name });
+            vscode.postMessage({ type: 'showDetails', payload: name });
         }
     }
 
@@ -383,6 +543,30 @@
         }
     }
 
+    /**
+     * @param {Event} e
+     */
+    function handleWhatsNew(e) {
+        const btn = /** @type {HTMLElement} */ (e.currentTarget);
+        const name = btn.dataset.name;
+        if (name) {
+            vscode.postMessage({ type: 'whatsNew', payload: name });
+        }
+    }
+
+    /**
+     * @param {Event} e
+     */
+    function handleRetryCheck(e) {
+        const btn = /** @type {HTMLElement} */ (e.currentTarget);
+        const name = btn.dataset.name;
+        if (name) {
+            retryingPackages.add(name);
+            render();
+            vscode.postMessage({ type: 'retryCheck', payload: name });
+        }
+    }
+
     /**
      * @param {Event} e
      */
@@ -408,9 +592,7 @@
      */
     function handleSelectAll(e) {
         const checkbox = /** @type {HTMLInputElement} */ (e.target);
-        const packagesWithUpdates = packages.filter(pkg =>
-            pkg.latestVersion && pkg.latestVersion !== pkg.version
-        );
+        const packagesWithUpdates = packages.filter(pkg => pkg.hasUpdate);
 
         if (checkbox.checked) {
             packagesWithUpdates.forEach(pkg => selectedPackages.add(pkg.name));
@@ -421,6 +603,29 @@
         render();
     }
 
+    /**
+     * @param {Event} e
+     */
+    function handleFilterChip(e) {
+        const chip = /** @type {HTMLElement} */ (e.currentTarget);
+        updateFilter = /** @type {typeof updateFilter} */ (chip.dataset.filter || 'all');
+        filterChipEls.forEach(el => el.classList.toggle('active', el === chip));
+        render();
+    }
+
+    /**
+     * Add every update of one type (patch or minor) to the selection
+     * @param {Event} e
+     */
+    function handleSelectByType(e) {
+        const btn = /** @type {HTMLElement} */ (e.currentTarget);
+        const type = btn.dataset.selectType;
+        packages
+            .filter(pkg => pkg.hasUpdate && pkg.updateType === type)
+            .forEach(pkg => selectedPackages.add(pkg.name));
+        render();
+    }
+
     function handleUpdateSelected() {
         if (selectedPackages.size === 0) return;
 
@@ -470,9 +675,7 @@
         }
 
         // Update select all checkbox state
-        const packagesWithUpdates = packages.filter(pkg =>
-            pkg.latestVersion && pkg.latestVersion !== pkg.version
-        );
+        const packagesWithUpdates = packages.filter(pkg => pkg.hasUpdate);
 
         if (selectAllCheckboxEl) {
             const allSelected = packagesWithUpdates.length > 0 &&
@@ -484,16 +687,48 @@
         }
     }
 
+    function updateFilterChips() {
+        /** @type {Record<string, number>} */
+        const counts = { all: packages.length, updates: 0, major: 0, minor: 0, patch: 0 };
+        packages.forEach(pkg => {
+            if (pkg.hasUpdate) {
+                counts.updates++;
+                if (pkg.updateType) {
+                    counts[pkg.updateType]++;
+                }
+            }
+        });
+        filterChipEls.forEach(el => {
+            const chip = /** @type {HTMLElement} */ (el);
+            const filter = chip.dataset.filter || 'all';
+            const label = filter.charAt(0).toUpperCase() + filter.slice(1);
+            chip.textContent = filter === 'all' ? label : label + ' (' + counts[filter] + ')';
+        });
+        selectByTypeBtnEls.forEach(el => {
+            const btn = /** @type {HTMLButtonElement} */ (el);
+            btn.disabled = !counts[btn.dataset.selectType || ''];
+        });
+    }
+
     function updateFooter() {
+        updateFilterChips();
+
         const total = packages.length;
-        const updatable = packages.filter(pkg =>
-            pkg.latestVersion && pkg.latestVersion !== pkg.version
-        ).length;
+        const updatable = packages.filter(pkg => pkg.hasUpdate).length;
 
         if (totalCountEl) {
             totalCountEl.textContent = total + ' package' + (total !== 1 ? 's' : '');
         }
 
+        if (backendLabelEl) {
+            backendLabelEl.textContent = backendLabels[backend] || backend;
+            backendLabelEl.title = backend === 'poetry'
+                ? 'Changes are made with poetry and recorded in pyproject.toml'
+                : backend === 'pipenv'
+                    ? 'Changes are made with pipenv and recorded in Pipfile'
+                    : 'Packages are managed with ' + backend;
+        }
+
         if (updateAvailableCountEl) {
             // Clear existing content
             updateAvailableCountEl.textContent = '';
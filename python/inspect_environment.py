@@ -0,0 +1,89 @@
+"""Describe the installed distributions in the shape of `pip inspect` output.
+
+Used when the interpreter's pip is older than 22.2 or missing, as in uv-created environments.
+"""
+import json
+import os
+import platform
+import sys
+
+try:
+    from importlib import metadata
+except ImportError:  # Python < 3.8
+    import importlib_metadata as metadata
+
+
+def read_text(dist, name):
+    try:
+        return dist.read_text(name)
+    except Exception:
+        return None
+
+
+def describe(dist):
+    meta = dist.metadata
+    if meta is None or not meta.get("Name"):
+        return None
+    direct_url = read_text(dist, "direct_url.json")
+    location = getattr(dist, "_path", None)
+    return {
+        "metadata": {
+            "name": meta["Name"],
+            "version": dist.version,
+            "summary": meta.get("Summary"),
+            "license": meta.get("License"),
+            "license_expression": meta.get("License-Expression"),
+            "classifier": meta.get_all("Classifier") or [],
+            "author": meta.get("Author"),
+            "author_email": meta.get("Author-email"),
+            "home_page": meta.get("Home-page"),
+            "project_url": meta.get_all("Project-URL") or [],
+            "requires_dist": dist.requires or [],
+        },
+        "metadata_location": os.fspath(location) if location else None,
+        "installer": (read_text(dist, "INSTALLER") or "").strip() or None,
+        "requested": read_text(dist, "REQUESTED") is not None,
+        "direct_url": json.loads(direct_url) if direct_url else None,
+    }
+
+
+def marker_environment():
+    """PEP 508 marker variables, the `environment` section of `pip inspect`."""
+    implementation = sys.implementation
+    version = implementation.version
+    implementation_version = "{0.major}.{0.minor}.{0.micro}".format(version)
+    if version.releaselevel != "final":
+        implementation_version += version.releaselevel[0] + str(version.serial)
+    return {
+        "implementation_name": implementation.name,
+        "implementation_version": implementation_version,
+        "os_name": os.name,
+        "platform_machine": platform.machine(),
+        "platform_release": platform.release(),
+        "platform_system": platform.system(),
+        "platform_version": platform.version(),
+        "python_full_version": platform.python_version(),
+        "platform_python_implementation": platform.python_implementation(),
+        "python_version": ".".join(platform.python_version_tuple()[:2]),
+        "sys_platform": sys.platform,
+    }
+
+
+def main():
+    installed = []
+    seen = set()
+    # Like pip, the first distribution of a name on sys.path shadows the others
+    for dist in metadata.distributions():
+        info = describe(dist)
+        if info is None:
+            continue
+        key = info["metadata"]["name"].lower().replace("_", "-").replace(".", "-")
+        if key in seen:
+            continue
+        seen.add(key)
+        installed.append(info)
+    json.dump({"version": "1", "installed": installed, "environment": marker_environment()}, sys.stdout)
+
+
+if __name__ == "__main__":
+    main()
@@ -3,18 +3,49 @@
 import * as vscode from 'vscode';
 import { PackageWebviewProvider } from './modules/PackageWebviewProvider';
 import { PythonExtension } from './modules/PythonExtension';
-import { PackageManager, necessaryPackage } from './modules/PackageManager';
+import { PackageManager, PackageRelease, PackageSummary, necessaryPackage } from './modules/PackageManager';
 import { i18n } from './common/i18n/localize';
 import * as path from 'path';
 import { ServiceCollection } from './common/ioc/common/serviceCollection';
 import { InstantiationService } from './common/ioc';
 import { IOutputChannel, IExtensionContext } from './interface/common';
 import { CommandTool } from './modules/CommandTool';
+import { UpdatePolicy } from './modules/UpdatePolicy';
+import { IndexRegistry } from './modules/IndexRegistry';
+import { ProjectSearchIndex } from './modules/ProjectSearch';
+import { PackageDetailsPanel } from './modules/PackageDetailsPanel';
+import { ReleaseNotes, formatReleaseNotes } from './modules/ReleaseNotes';
+import { DependencyTree } from './modules/DependencyTree';
+import { DependencyDiagnostics } from './modules/DependencyDiagnostics';
+import { InstallPreview } from './modules/InstallPreview';
+import { RequirementsLanguage } from './modules/RequirementsLanguage';
+import { RequirementsCompletion } from './modules/RequirementsCompletion';
+import * as utils from './utils';
 
 export interface ExtensionAPI {
 	pip: PackageManager
 }
 
+interface VersionQuickPickItem extends vscode.QuickPickItem {
+	release?: PackageRelease;
+}
+
+/**
+ * Package name from a command argument: a name, a dependency tree node or a webview context menu context
+ */
+function packageNameOf(arg?: string | { name?: string; packageName?: string }) {
+	if (typeof arg === 'string') {
+		return arg;
+	}
+	return arg?.packageName || arg?.name;
+}
+
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+	packageName?: string;
+	/** Query to open in the pypi.org search instead of installing */
+	webSearch?: string;
+}
+
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
 export async function activate(context: vscode.ExtensionContext) {
@@ -48,11 +79,22 @@ export async function activate(context: vscode.ExtensionContext) {
 		outputChannel.appendLine('PyDepPilot: No Python interpreter found. Please select one using the Python extension.');
 	}
 
-	const pip = PackageManager.Create(instantiationService, services, pythonPath);
+	const indexRegistry = IndexRegistry.Create(instantiationService, services);
+	const pip = PackageManager.Create(instantiationService, services, pythonExtension.execCommand);
+	const updatePolicy = UpdatePolicy.Create(instantiationService, services);
+	const packageDetailsPanel = PackageDetailsPanel.Create(instantiationService, services);
+	const releaseNotes = ReleaseNotes.Create(instantiationService, services);
+	const dependencyTree = DependencyTree.Create(instantiationService, services);
+	DependencyDiagnostics.Create(instantiationService, services);
+	const installPreview = InstallPreview.Create(instantiationService, services);
+	const requirementsLanguage = RequirementsLanguage.Create(instantiationService, services);
+	RequirementsCompletion.Create(instantiationService, services);
 	const packageWebviewProvider = PackageWebviewProvider.Create(instantiationService, services);
 
-	pythonExtension.onPythonPathChange((newPythonPath)=>{
-		pip.updatePythonPath(newPythonPath);
+	context.subscriptions.push(indexRegistry.onDidChange(() => packageWebviewProvider.refresh()));
+
+	pythonExtension.onExecCommandChange((execCommand)=>{
+		pip.updateExecCommand(execCommand);
 		packageWebviewProvider.refresh();
 	});
 
@@ -66,6 +108,9 @@ export async function activate(context: vscode.ExtensionContext) {
 	async function addPackage(name?: string){
 		if(name){
 			outputChannel.clear();
+			if (!await installPreview.confirm({ type: 'add', specs: [name] })) {
+				return;
+			}
 			await vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
 				title: i18n.localize('pydep-pilot.tip.addPackage', 'Installing package %0%', `${name}`),
@@ -77,15 +122,53 @@ export async function activate(context: vscode.ExtensionContext) {
 		}
 	}
 
+	/**
+	 * What to install when updating a package, the newest version the workspace policy allows
+	 * for packages under a policy, the same as the package list does; null when there is none.
+	 * Rejects when that version could not be checked.
+	 */
+	async function resolveUpdateTarget(name: string): Promise<string | null> {
+		const installed = (await pip.getPackageList())
+			.find((pack) => utils.normalizePackageName(pack.name) === utils.normalizePackageName(name));
+		const policy = installed && updatePolicy.getPolicy(installed.name, installed.version);
+		if (!installed || !policy) {
+			return name;
+		}
+		if (policy.type === 'ignore') {
+			return null;
+		}
+		const latest = await pip.checkPackageLatestVersion(installed.name, undefined, policy.specifier);
+		if (!latest || !utils.isNewerVersion(latest.version, installed.version)) {
+			return null;
+		}
+		return `${installed.name}==${latest.version}`;
+	}
+
 	async function updatePackage(name?: string){
 		if(name){
 			outputChannel.clear();
+			let target: string | null;
+			try {
+				target = name.includes('==') ? name : await resolveUpdateTarget(name);
+			} catch (err: any) {
+				// Not knowing the newest allowed version is no reason to call the package held back
+				vscode.window.showWarningMessage(i18n.localize('pydep-pilot.tip.updateCheckFailed', 'Could not check which version of %0% the workspace update policy allows. %1%', name, err?.message || String(err)));
+				return;
+			}
+			if (!target) {
+				const reason = updatePolicy.getRule(name)?.reason || '';
+				vscode.window.showWarningMessage(i18n.localize('pydep-pilot.tip.updateHeldBack', '%0% is held back by the workspace update policy. %1%', name, reason));
+				return;
+			}
+			if (!await installPreview.confirm({ type: 'update', specs: [target] })) {
+				return;
+			}
 			await vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
 				title: i18n.localize('pydep-pilot.tip.updatePackage', 'Updating package %0%', `${name}`),
 				cancellable: true,
 			}, async (progress, cancelToken) => {
-				await pip.updatePackage(name, cancelToken);
+				await pip.updatePackage(target, cancelToken);
 				packageWebviewProvider.refresh();
 			});
 		}
@@ -105,6 +188,10 @@ export async function activate(context: vscode.ExtensionContext) {
 		packageWebviewProvider.refresh();
 	});
 
+	commandTool.registerCommand('pydep-pilot.dependencyTree.refresh', () => dependencyTree.refresh());
+	commandTool.registerCommand('pydep-pilot.dependencyTree.expandAll', () => dependencyTree.expandAll());
+	commandTool.registerCommand('pydep-pilot.dependencyTree.collapseAll', () => dependencyTree.collapseAll());
+
 	commandTool.registerCommand('pydep-pilot.addPackage', async (name?: string) => {
 		let value = '';
 		if(name){
@@ -156,6 +243,78 @@ export async function activate(context: vscode.ExtensionContext) {
 		vscode.env.openExternal(vscode.Uri.parse(`https://pypi.org/project/${value}/`));
 	});
 
+	commandTool.registerCommand('pydep-pilot.showPackageDetails', async (arg?: string | { name?: string; packageName?: string }) => {
+		const value = packageNameOf(arg) || await vscode.window.showInputBox({ title: i18n.localize('pydep-pilot.input.showPackageDetails', 'Enter package name to show details for') });
+		if (!value) {
+			return;
+		}
+		await packageDetailsPanel.show(value.split('==')[0].trim());
+	});
+
+	commandTool.registerCommand('pydep-pilot.whyInstalled', async (arg?: string | { name?: string; packageName?: string }) => {
+		const value = packageNameOf(arg) || await vscode.window.showInputBox({ title: i18n.localize('pydep-pilot.input.whyInstalled', 'Enter package name to find what requires it') });
+		if (!value) {
+			return;
+		}
+		const graph = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Window,
+			title: i18n.localize('pydep-pilot.tip.whyInstalled', 'Finding packages that require %0%', value),
+		}, () => pip.getDependencyGraph());
+		const dist = graph.get(value);
+		if (!dist) {
+			vscode.window.showWarningMessage(i18n.localize('pydep-pilot.tip.notInstalled', 'Package %0% is not installed', value));
+			return;
+		}
+		const dependents = graph.dependents(value);
+		if (!dependents.length) {
+			vscode.window.showInformationMessage(dist.requested === false
+				? i18n.localize('pydep-pilot.tip.whyInstalledOrphan', '%0% was installed as a dependency, but no installed package requires it anymore', dist.name)
+				: i18n.localize('pydep-pilot.tip.whyInstalledTopLevel', 'No installed package requires %0%, it was installed on its own', dist.name));
+			return;
+		}
+		const picked = await vscode.window.showQuickPick(dependents.map(({ dist: dependent, specifier }) => ({
+			label: dependent.name,
+			description: dependent.version,
+			detail: i18n.localize('pydep-pilot.pick.whyInstalled.requires', 'requires %0%', `${dist.name}${specifier || ''}`),
+			name: dependent.name,
+		})), {
+			title: i18n.localize('pydep-pilot.pick.whyInstalled.title', 'Packages requiring %0% %1%', dist.name, dist.version),
+			placeHolder: i18n.localize('pydep-pilot.pick.whyInstalled.placeholder', 'Select a package to show its details'),
+		});
+		if (picked) {
+			await packageDetailsPanel.show(picked.name);
+		}
+	});
+
+	commandTool.registerCommand('pydep-pilot.showReleaseNotes', async (name?: string, fromVersion?: string, toVersion?: string) => {
+		const value = name || await vscode.window.showInputBox({ title: i18n.localize('pydep-pilot.input.showReleaseNotes', 'Enter package name to show what\'s new') });
+		if (!value) {
+			return;
+		}
+		const content = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: i18n.localize('pydep-pilot.tip.showReleaseNotes', 'Collecting release notes for %0%', value),
+			cancellable: true,
+		}, async (progress, cancelToken) => {
+			const report = await pip.getEnvironmentReport(cancelToken).catch(() => undefined);
+			const dist = report?.packages.find((pkg) => utils.normalizePackageName(pkg.name) === utils.normalizePackageName(value));
+			const from = fromVersion || dist?.version;
+			const to = toVersion || (await pip.checkPackageLatestVersion(value, cancelToken).catch(() => null))?.version;
+			if (!from || !to) {
+				vscode.window.showWarningMessage(i18n.localize('pydep-pilot.tip.releaseNotesNoRange', 'Package %0% is not installed or has no newer release', value));
+				return undefined;
+			}
+			const request = { name: dist?.name || value, fromVersion: from, toVersion: to, projectUrls: dist?.projectUrls };
+			const result = await releaseNotes.collect(request, cancelToken);
+			return cancelToken.isCancellationRequested ? undefined : formatReleaseNotes(request, result);
+		});
+		if (!content) {
+			return;
+		}
+		const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+		await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+	});
+
 	commandTool.registerCommand('pydep-pilot.copyPackageName', async (name?: string) => {
 		if (!name) {
 			return;
@@ -163,6 +322,10 @@ export async function activate(context: vscode.ExtensionContext) {
 		await vscode.env.clipboard.writeText(name);
 	});
 
+	commandTool.registerCommand('pydep-pilot.requirements.updatePin', (uri: vscode.Uri, line: number, start: number, end: number, specifier: string) => {
+		return requirementsLanguage.updatePin(uri, line, start, end, specifier);
+	});
+
 	commandTool.registerCommand('pydep-pilot.installRequirements', async (e?: vscode.Uri) => {
 		if (!e) {
 			return;
@@ -172,6 +335,9 @@ export async function activate(context: vscode.ExtensionContext) {
 			return;
 		}
 		outputChannel.clear();
+		if (!await installPreview.confirm({ type: 'requirements', filePath })) {
+			return;
+		}
 		vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
 			title: i18n.localize('pydep-pilot.tip.addPackageFromFile', 'Installing packages from %0%', path.basename(filePath)),
@@ -182,13 +348,184 @@ export async function activate(context: vscode.ExtensionContext) {
 		});
 	});
 
+	commandTool.registerCommand('pydep-pilot.syncPipfileLock', async (e?: vscode.Uri) => {
+		if (!e) {
+			return;
+		}
+		const filePath = e.fsPath;
+		if (!filePath) {
+			return;
+		}
+		outputChannel.clear();
+		vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: i18n.localize('pydep-pilot.tip.syncPipfileLock', 'Syncing packages from %0%', 'Pipfile.lock'),
+			cancellable: true,
+		}, async (progress, cancelToken) => {
+			await pip.syncPipfileLock(filePath, cancelToken);
+			packageWebviewProvider.refresh();
+		});
+	});
+
+	commandTool.registerCommand('pydep-pilot.manageIndexCredentials', async () => {
+		const otherUrl = i18n.localize('pydep-pilot.pick.index.other', 'Other index URL...');
+		const indexItems: vscode.QuickPickItem[] = [];
+		for (const index of indexRegistry.getIndexes()) {
+			const credentials = await indexRegistry.getCredentials(index.url);
+			indexItems.push({
+				label: index.url,
+				description: credentials ?
+					i18n.localize('pydep-pilot.pick.index.signedIn', 'credentials saved for %0%', credentials.username) :
+					undefined,
+				iconPath: new vscode.ThemeIcon(credentials ? 'lock' : 'unlock'),
+			});
+		}
+		indexItems.push({ label: otherUrl, iconPath: new vscode.ThemeIcon('add') });
+
+		const picked = await vscode.window.showQuickPick(indexItems, {
+			title: i18n.localize('pydep-pilot.pick.index.title', 'Select a package index'),
+		});
+		let url = picked?.label;
+		if (url === otherUrl) {
+			url = await vscode.window.showInputBox({
+				title: i18n.localize('pydep-pilot.input.indexUrl', 'Enter the index URL'),
+				placeHolder: 'https://pypi.example.com/simple',
+			});
+		}
+		if (!url) {
+			return;
+		}
+
+		const setCredentials = i18n.localize('pydep-pilot.pick.index.set', 'Set credentials');
+		const removeCredentials = i18n.localize('pydep-pilot.pick.index.remove', 'Remove credentials');
+		const action = await indexRegistry.getCredentials(url) ?
+			await vscode.window.showQuickPick([setCredentials, removeCredentials], { title: url }) :
+			setCredentials;
+		if (action === removeCredentials) {
+			await indexRegistry.deleteCredentials(url);
+			vscode.window.showInformationMessage(i18n.localize('pydep-pilot.tip.indexCredentialsRemoved', 'Removed credentials for %0%', url));
+			return;
+		}
+		if (action !== setCredentials) {
+			return;
+		}
+
+		const username = await vscode.window.showInputBox({
+			title: i18n.localize('pydep-pilot.input.indexUsername', 'Username for %0%', url),
+			ignoreFocusOut: true,
+		});
+		if (!username) {
+			return;
+		}
+		const password = await vscode.window.showInputBox({
+			title: i18n.localize('pydep-pilot.input.indexPassword', 'Password or token for %0%', url),
+			password: true,
+			ignoreFocusOut: true,
+		});
+		if (password === undefined) {
+			return;
+		}
+		await indexRegistry.setCredentials(url, { username, password });
+		vscode.window.showInformationMessage(i18n.localize('pydep-pilot.tip.indexCredentialsSaved', 'Saved credentials for %0%', url));
+	});
+
+	commandTool.registerCommand('pydep-pilot.clearMetadataCache', async () => {
+		await pip.clearMetadataCache();
+		vscode.window.showInformationMessage(i18n.localize('pydep-pilot.tip.metadataCacheCleared', 'Package metadata cache cleared'));
+		packageWebviewProvider.refresh();
+	});
+
 	commandTool.registerCommand('pydep-pilot.searchPackage', async () => {
-		const query = await vscode.window.showInputBox({
-			title: i18n.localize('pydep-pilot.pick.search.defaultTitle', 'Search PyPI'),
-			placeHolder: i18n.localize('pydep-pilot.pick.search.placeholder', 'Enter package name to search'),
+		const cancel = new vscode.CancellationTokenSource();
+		const quickPick = vscode.window.createQuickPick<SearchQuickPickItem>();
+		quickPick.title = i18n.localize('pydep-pilot.pick.search.defaultTitle', 'Search PyPI');
+		quickPick.placeholder = i18n.localize('pydep-pilot.pick.search.placeholder', 'Enter package name to search');
+		quickPick.busy = true;
+
+		const summaries = new Map<string, PackageSummary>();
+		let searchIndex: ProjectSearchIndex | undefined;
+		let detailTimer: NodeJS.Timeout | undefined;
+
+		const webSearchItem = (query: string): SearchQuickPickItem => ({
+			label: `$(link-external) ${i18n.localize('pydep-pilot.pick.search.web', 'Search "%0%" on pypi.org', query)}`,
+			webSearch: query,
+			alwaysShow: true,
 		});
-		if (query) {
-			vscode.env.openExternal(vscode.Uri.parse(`https://pypi.org/search/?q=${encodeURIComponent(query)}`));
+		const toItem = (name: string): SearchQuickPickItem => {
+			const summary = summaries.get(name);
+			return {
+				label: name,
+				packageName: name,
+				description: summary?.latestVersion,
+				detail: summary?.summary,
+				alwaysShow: true,
+			};
+		};
+		const render = () => {
+			const query = quickPick.value.trim();
+			if (!query) {
+				quickPick.items = [];
+				return;
+			}
+			// Items are ranked here and marked alwaysShow so VS Code's own filtering keeps all of them
+			const names = searchIndex ? searchIndex.search(query) : [];
+			quickPick.items = [...names.map(toItem), webSearchItem(query)];
+		};
+		// Only the highlighted entry is looked up, a request per result would flood the index
+		const loadDetails = (item?: SearchQuickPickItem) => {
+			clearTimeout(detailTimer);
+			const name = item?.packageName;
+			if (!name || summaries.has(name)) {
+				return;
+			}
+			detailTimer = setTimeout(async () => {
+				const summary = await pip.getPackageSummary(name, cancel.token).catch(() => ({}));
+				summaries.set(name, summary);
+				if (cancel.token.isCancellationRequested) {
+					return;
+				}
+				const active = quickPick.activeItems[0]?.packageName;
+				render();
+				const restored = quickPick.items.find((candidate) => candidate.packageName === active);
+				if (restored) {
+					quickPick.activeItems = [restored];
+				}
+			}, 250);
+		};
+
+		quickPick.onDidChangeValue(render);
+		quickPick.onDidChangeActive((items) => loadDetails(items[0]));
+		quickPick.onDidAccept(async () => {
+			const [item] = quickPick.selectedItems;
+			if (!item) {
+				return;
+			}
+			quickPick.hide();
+			if (item.webSearch) {
+				vscode.env.openExternal(vscode.Uri.parse(`https://pypi.org/search/?q=${encodeURIComponent(item.webSearch)}`));
+			} else if (item.packageName) {
+				await addPackage(item.packageName);
+			}
+		});
+		quickPick.onDidHide(() => {
+			clearTimeout(detailTimer);
+			cancel.cancel();
+			cancel.dispose();
+			quickPick.dispose();
+		});
+		quickPick.show();
+
+		try {
+			searchIndex = new ProjectSearchIndex(await pip.getProjectNames(cancel.token));
+		} catch (err) {
+			if (!cancel.token.isCancellationRequested) {
+				outputChannel.appendLine(`Project list could not be loaded: ${err}`);
+				quickPick.placeholder = i18n.localize('pydep-pilot.pick.search.unavailable', 'Package list unavailable, search on pypi.org instead');
+			}
+		}
+		if (!cancel.token.isCancellationRequested) {
+			quickPick.busy = false;
+			render();
 		}
 	});
 
@@ -205,7 +542,8 @@ export async function activate(context: vscode.ExtensionContext) {
 			return false;
 		}
 
-		let versionList: string[] = [];
+		let releases: PackageRelease[] = [];
+		let pythonVersion: string | undefined;
 
 		outputChannel.clear();
 		await vscode.window.withProgress({
@@ -213,29 +551,62 @@ export async function activate(context: vscode.ExtensionContext) {
 			title: i18n.localize('pydep-pilot.tip.pickPackageVersion', 'Fetching versions for %0%', `${pack}`),
 			cancellable: true,
 		}, async (progress, cancelToken) => {
-			versionList = await pip.getPackageVersionList(pack, cancelToken);
+			releases = await pip.getPackageReleases(pack, cancelToken);
+			pythonVersion = await pip.getPythonVersion();
 		});
 
-		if (!versionList.length) {
+		if (!releases.length) {
 			vscode.window.showInformationMessage(i18n.localize('pydep-pilot.tip.noPackageVersion', 'No versions found for %0%', `${pack}`));
 			return;
 		}
 
-		const quickPickItems: vscode.QuickPickItem[] = versionList.map((item)=>{
-			const picked = (version && version === item) || false;
+		const createVersionItem = (release: PackageRelease): VersionQuickPickItem => {
+			const picked = (version && utils.isVersionEqual(version, release.version)) || false;
+			const notes: string[] = [];
+			if (picked) {
+				notes.push(i18n.localize('pydep-pilot.tip.currentVersion','%0% (current)', pack));
+			}
+			if (!release.pythonCompatible) {
+				notes.push(i18n.localize('pydep-pilot.tip.requiresPython', 'requires Python %0%', release.requiresPython || ''));
+			}
+			if (release.yanked) {
+				notes.push(release.yankedReason ?
+					i18n.localize('pydep-pilot.tip.yankedVersionReason', 'yanked: %0%', release.yankedReason) :
+					i18n.localize('pydep-pilot.tip.yankedVersion', 'yanked'));
+			}
 			return {
-				label: item,
+				label: release.version,
 				alwaysShow: true,
-				description: picked ?
-					i18n.localize('pydep-pilot.tip.currentVersion','%0% (current)', pack) :
-					undefined,
+				description: notes.join(' · ') || undefined,
+				iconPath: !release.pythonCompatible ?
+					new vscode.ThemeIcon('circle-slash') :
+					release.yanked ? new vscode.ThemeIcon('warning') : undefined,
 				picked,
+				release,
 			};
-		});
+		};
+
+		// Stable releases first, then pre-releases and releases the interpreter cannot install under their own separators
+		const compatible = releases.filter((release) => release.pythonCompatible);
+		const quickPickItems: VersionQuickPickItem[] = compatible.filter((release) => !release.prerelease).map(createVersionItem);
+		const prereleaseItems = compatible.filter((release) => release.prerelease).map(createVersionItem);
+		const incompatibleItems = releases.filter((release) => !release.pythonCompatible).map(createVersionItem);
+		if (prereleaseItems.length) {
+			quickPickItems.push({
+				label: i18n.localize('pydep-pilot.pick.prereleases', 'Pre-releases'),
+				kind: vscode.QuickPickItemKind.Separator,
+			}, ...prereleaseItems);
+		}
+		if (incompatibleItems.length) {
+			quickPickItems.push({
+				label: i18n.localize('pydep-pilot.pick.incompatible', 'Incompatible with Python %0%', pythonVersion || ''),
+				kind: vscode.QuickPickItemKind.Separator,
+			}, ...incompatibleItems);
+		}
 
-		const selectedVersion = await new Promise<vscode.QuickPickItem | null>((resolve, reject) => {
-			const qPick = vscode.window.createQuickPick();
-			let value: vscode.QuickPickItem | null = null;
+		const selectedVersion = await new Promise<VersionQuickPickItem | null>((resolve, reject) => {
+			const qPick = vscode.window.createQuickPick<VersionQuickPickItem>();
+			let value: VersionQuickPickItem | null = null;
 			qPick.title = i18n.localize('pydep-pilot.tip.selectPackageVersion', 'Select version for %0%', `${pack}`);
 			qPick.placeholder = version;
 			qPick.items = quickPickItems;
@@ -253,9 +624,41 @@ export async function activate(context: vscode.ExtensionContext) {
 			qPick.show();
 		});
 
-		if (selectedVersion && selectedVersion.label !== version) {
-			vscode.commands.executeCommand('pydep-pilot.addPackage', `${pack}==${selectedVersion.label}`);
+		if (!selectedVersion?.release || (version && utils.isVersionEqual(selectedVersion.release.version, version))) {
+			return;
 		}
+
+		if (!selectedVersion.release.pythonCompatible) {
+			vscode.window.showErrorMessage(i18n.localize('pydep-pilot.tip.incompatibleVersion', '%0% %1% requires Python %2%, the selected interpreter is Python %3%', pack, selectedVersion.release.version, selectedVersion.release.requiresPython || '', pythonVersion || ''));
+			return;
+		}
+
+		if (selectedVersion.release.yanked) {
+			const install = i18n.localize('pydep-pilot.tip.installAnyway', 'Install Anyway');
+			const confirm = await vscode.window.showWarningMessage(
+				i18n.localize('pydep-pilot.tip.confirmYankedVersion', '%0% %1% was yanked from the index. %2%', pack, selectedVersion.release.version, selectedVersion.release.yankedReason || ''),
+				{ modal: true },
+				install
+			);
+			if (confirm !== install) {
+				return;
+			}
+		}
+
+		const policy = version ? updatePolicy.getPolicy(pack, version) : undefined;
+		if (policy?.specifier && !utils.satisfies(selectedVersion.release.version, policy.specifier, { prereleases: true })) {
+			const install = i18n.localize('pydep-pilot.tip.installAnyway', 'Install Anyway');
+			const confirm = await vscode.window.showWarningMessage(
+				i18n.localize('pydep-pilot.tip.confirmPolicyVersion', '%0% %1% is outside %2% set by the workspace update policy. %3%', pack, selectedVersion.release.version, policy.specifier, policy.reason || ''),
+				{ modal: true },
+				install
+			);
+			if (confirm !== install) {
+				return;
+			}
+		}
+
+		vscode.commands.executeCommand('pydep-pilot.addPackage', `${pack}==${selectedVersion.release.version}`);
 	});
 
 	return { pip } as ExtensionAPI;
@@ -0,0 +1,167 @@
+export type UpdateStatus = 'updated' | 'failed' | 'held' | 'cancelled';
+
+/**
+ * Why a package under a workspace policy has nothing to install: the policy allows no newer version,
+ * or the check for the newest allowed version failed or has not finished
+ */
+export type HoldReason = 'policy' | 'checkFailed' | 'unchecked';
+
+/** The spec to install, or why there is none */
+export type UpdateTarget = string | { held: HoldReason };
+
+export interface UpdateOutcome {
+    status: UpdateStatus;
+    /** First line of the error of a failed update */
+    error?: string;
+    /** Why a held package was left out */
+    reason?: HoldReason;
+}
+
+const HOLD_DESCRIPTIONS: Record<HoldReason, string> = {
+    policy: 'held back by the workspace update policy',
+    checkFailed: 'skipped, checking the newest version the policy allows failed',
+    unchecked: 'skipped, the newest version the policy allows is still being checked',
+};
+
+/**
+ * How a bulk update installs packages, so the run can be followed without a real package manager
+ */
+export interface BulkUpdateSteps {
+    /** Install every spec with one command */
+    updateAll(specs: string[]): Promise<void>;
+    /** Install a single package, the `current`th of `total` */
+    updateOne(name: string, spec: string, current: number, total: number): Promise<void>;
+    isCancelled(): boolean;
+}
+
+export interface BulkUpdateResult {
+    /** Outcome per package, in the order the packages were asked for */
+    outcomes: Map<string, UpdateOutcome>;
+    /** Why resolving the packages together failed, they were then updated one at a time */
+    combinedError?: string;
+}
+
+export interface BulkUpdateReport {
+    /** One line per package for the output channel */
+    details: string[];
+    /** Counts for the notification */
+    message: string;
+    /** Every package was updated in the way the user asked for */
+    complete: boolean;
+}
+
+/**
+ * First line of a failed command's error, pip prints the reason there and the details after it
+ */
+export function firstErrorLine(error: any): string {
+    const message: string = error?.message || String(error);
+    return message.split('\n').map((line) => line.trim()).find(Boolean) || message;
+}
+
+/**
+ * Update packages, all in one command when `together` is set and one at a time otherwise or when that fails.
+ * `targets` maps each package to the spec to install, or why there is none.
+ * Packages not reached before a cancellation end up cancelled.
+ */
+export async function runBulkUpdate(targets: Map<string, UpdateTarget>, together: boolean, steps: BulkUpdateSteps): Promise<BulkUpdateResult> {
+    const outcomes = new Map<string, UpdateOutcome>();
+    const runnable: [string, string][] = [];
+    targets.forEach((target, name) => {
+        if (typeof target === 'string') {
+            outcomes.set(name, { status: 'cancelled' });
+            runnable.push([name, target]);
+        } else {
+            outcomes.set(name, { status: 'held', reason: target.held });
+        }
+    });
+    let combinedError: string | undefined;
+
+    if (together && runnable.length > 1) {
+        // One resolver run sees every requested version, so no update undoes another
+        try {
+            await steps.updateAll(runnable.map(([, spec]) => spec));
+            runnable.forEach(([name]) => outcomes.set(name, { status: 'updated' }));
+            return { outcomes };
+        } catch (error) {
+            if (steps.isCancelled()) {
+                return { outcomes };
+            }
+            combinedError = firstErrorLine(error);
+        }
+    }
+
+    // One at a time, also the fallback that shows which package the combined run failed on
+    for (const [i, [name, spec]] of runnable.entries()) {
+        if (steps.isCancelled()) {
+            break;
+        }
+        try {
+            await steps.updateOne(name, spec, i + 1, runnable.length);
+            outcomes.set(name, { status: 'updated' });
+        } catch (error) {
+            if (!steps.isCancelled()) {
+                outcomes.set(name, { status: 'failed', error: firstErrorLine(error) });
+            }
+        }
+    }
+    return { outcomes, combinedError };
+}
+
+/**
+ * Describe a finished bulk update. `versions` adds the version before the run and the one installed after it
+ * to updated packages, an install can succeed and still leave a package where it was.
+ */
+export function reportBulkUpdate(result: BulkUpdateResult, versions = new Map<string, { from: string; to: string }>()): BulkUpdateReport {
+    const { outcomes, combinedError } = result;
+    const byStatus = (status: UpdateStatus) => [...outcomes].filter(([, outcome]) => outcome.status === status).map(([name]) => name);
+    const updated = byStatus('updated');
+    const failed = byStatus('failed');
+    const cancelled = byStatus('cancelled');
+
+    const details = ['Bulk update results:'];
+    if (combinedError) {
+        details.push(`  Resolving the packages together failed, they were updated one at a time: ${combinedError}`);
+    }
+    outcomes.forEach((outcome, name) => {
+        const version = versions.get(name);
+        switch (outcome.status) {
+            case 'updated':
+                if (version && version.from === version.to) {
+                    details.push(`  ${name}: updated, still at ${version.to}`);
+                } else {
+                    details.push(`  ${name}: updated${version ? ` ${version.from} → ${version.to}` : ''}`);
+                }
+                break;
+            case 'failed':
+                details.push(`  ${name}: failed, ${outcome.error}`);
+                break;
+            case 'held':
+                details.push(`  ${name}: ${HOLD_DESCRIPTIONS[outcome.reason || 'policy']}`);
+                break;
+            default:
+                details.push(`  ${name}: not updated, cancelled`);
+        }
+    });
+
+    const parts = [`Updated ${updated.length} of ${outcomes.size} packages`];
+    if (combinedError) {
+        parts.push('one at a time after resolving them together failed');
+    }
+    if (failed.length) {
+        parts.push(`failed: ${failed.join(', ')}`);
+    }
+    for (const reason of Object.keys(HOLD_DESCRIPTIONS) as HoldReason[]) {
+        const held = [...outcomes].filter(([, outcome]) => outcome.status === 'held' && (outcome.reason || 'policy') === reason);
+        if (held.length) {
+            parts.push(`${HOLD_DESCRIPTIONS[reason]}: ${held.map(([name]) => name).join(', ')}`);
+        }
+    }
+    if (cancelled.length) {
+        parts.push(`cancelled: ${cancelled.join(', ')}`);
+    }
+    return {
+        details,
+        message: parts.join('; '),
+        complete: updated.length === outcomes.size && !combinedError,
+    };
+}
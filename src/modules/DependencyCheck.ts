@@ -0,0 +1,82 @@
+import * as utils from '@/utils';
+import { EnvironmentReport } from './EnvironmentReport';
+import { DependencyGraph } from './DependencyGraph';
+
+export interface DependencyConflict {
+    /** Distribution with the unmet requirement */
+    name: string;
+    version: string;
+    /** Distribution it requires, missing when `name` is built for another platform */
+    dependency?: string;
+    /** The requirement as pip prints it, e.g. `urllib3<3,>=1.21.1` */
+    requirement?: string;
+    /** Installed version of `dependency`, missing when it is not installed */
+    installedVersion?: string;
+    message: string;
+}
+
+const MISSING = /^(\S+) (\S+) requires (\S+), which is not installed\.$/;
+const INCOMPATIBLE = /^(\S+) (\S+) (?:has requirement|requires) (.+), but you have (\S+) (\S+)\.$/;
+const UNSUPPORTED = /^(\S+) (\S+) is not supported on this platform$/;
+
+/**
+ * Problems `pip check` reports, one per line. Lines it does not recognize are skipped.
+ */
+export function parsePipCheck(output: string): DependencyConflict[] {
+    const conflicts: DependencyConflict[] = [];
+    for (const raw of output.split(/\r?\n/)) {
+        const message = raw.trim();
+        let match: RegExpExecArray | null;
+        if ((match = MISSING.exec(message))) {
+            const requirement = utils.parseRequirement(match[3]);
+            conflicts.push({ name: match[1], version: match[2], dependency: requirement?.name || match[3], requirement: match[3], message });
+        } else if ((match = INCOMPATIBLE.exec(message))) {
+            conflicts.push({ name: match[1], version: match[2], dependency: match[4], requirement: match[3], installedVersion: match[5], message });
+        } else if ((match = UNSUPPORTED.exec(message))) {
+            conflicts.push({ name: match[1], version: match[2], message });
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * The same check from installed metadata, for environments without pip such as the ones uv creates
+ */
+export function findConflicts(report: EnvironmentReport): DependencyConflict[] {
+    const graph = new DependencyGraph(report);
+    const conflicts: DependencyConflict[] = [];
+    for (const dist of graph.all()) {
+        for (const edge of graph.dependencies(dist.name)) {
+            const requirement = `${edge.name}${edge.specifier}`;
+            const installed = graph.get(edge.key);
+            if (!installed) {
+                conflicts.push({
+                    name: dist.name,
+                    version: dist.version,
+                    dependency: edge.name,
+                    requirement,
+                    message: `${dist.name} ${dist.version} requires ${requirement}, which is not installed.`,
+                });
+            } else if (edge.specifier && !utils.satisfies(installed.version, edge.specifier, { prereleases: true })) {
+                conflicts.push({
+                    name: dist.name,
+                    version: dist.version,
+                    dependency: installed.name,
+                    requirement,
+                    installedVersion: installed.version,
+                    message: `${dist.name} ${dist.version} requires ${requirement}, but you have ${installed.name} ${installed.version}.`,
+                });
+            }
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Conflicts a package takes part in, either with an unmet requirement or as the requirement not met
+ */
+export function conflictsInvolving(conflicts: DependencyConflict[], name: string): DependencyConflict[] {
+    const key = utils.normalizePackageName(name);
+    return conflicts.filter((conflict) => utils.normalizePackageName(conflict.name) === key
+        || (conflict.dependency !== undefined && utils.normalizePackageName(conflict.dependency) === key));
+}
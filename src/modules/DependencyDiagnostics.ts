@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext, IOutputChannel } from '@/interface/common';
+import { IPackageManager } from './PackageManager';
+import { DependencyConflict, conflictsInvolving } from './DependencyCheck';
+import { findManifests } from './Manifests';
+
+export interface IDependencyDiagnostics {
+    /** Fires when a check finished with a different set of conflicts */
+    readonly onDidChange: vscode.Event<void>;
+    readonly conflicts: DependencyConflict[];
+    /** Messages of the conflicts a package takes part in */
+    conflictsFor(name: string): string[];
+    check(): void;
+}
+
+export const IDependencyDiagnostics = createDecorator<IDependencyDiagnostics>('dependencyDiagnostics');
+
+/**
+ * Runs `pip check` after the environment changes and reports broken requirements on the lines of
+ * requirements files and pyproject.toml that declare the packages involved
+ */
+export class DependencyDiagnostics implements IDependencyDiagnostics {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+    private readonly collection = vscode.languages.createDiagnosticCollection('pydep-pilot');
+    private _conflicts: DependencyConflict[] = [];
+    private running = false;
+    /** Another check was asked for while one was running, the environment may have changed since */
+    private queued = false;
+
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+        @IOutputChannel private readonly output: IOutputChannel,
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) {
+        const manifestWatcher = vscode.workspace.createFileSystemWatcher('**/{requirements*.txt,requirements/*.txt,pyproject.toml}');
+        const publish = () => this.publish();
+        this.context.subscriptions.push(
+            this.collection,
+            this._onDidChange,
+            manifestWatcher,
+            manifestWatcher.onDidCreate(publish),
+            manifestWatcher.onDidChange(publish),
+            manifestWatcher.onDidDelete(publish),
+            this.pip.onDidChangePackages(() => this.check()),
+        );
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IDependencyDiagnostics>(DependencyDiagnostics);
+        if (service) {
+            service.set(IDependencyDiagnostics, instance);
+        }
+        return instance;
+    }
+
+    get conflicts() {
+        return this._conflicts;
+    }
+
+    conflictsFor(name: string) {
+        return conflictsInvolving(this._conflicts, name).map((conflict) => conflict.message);
+    }
+
+    async check() {
+        if (this.running) {
+            this.queued = true;
+            return;
+        }
+        this.running = true;
+        try {
+            let conflicts: DependencyConflict[];
+            try {
+                conflicts = await this.pip.checkDependencies();
+            } catch (err: any) {
+                // No interpreter or a broken one, the package list reports that already
+                this.output.appendLine(`Dependency check failed: ${err?.message || err}`);
+                conflicts = [];
+            }
+            const changed = JSON.stringify(conflicts) !== JSON.stringify(this._conflicts);
+            this._conflicts = conflicts;
+            if (changed) {
+                await this.publish();
+                this._onDidChange.fire();
+            }
+        } finally {
+            this.running = false;
+            if (this.queued) {
+                this.queued = false;
+                this.check();
+            }
+        }
+    }
+
+    private async publish() {
+        const folders = (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
+        const manifests = this._conflicts.length ? await findManifests(folders) : [];
+        this.collection.clear();
+        for (const manifest of manifests) {
+            const diagnostics: vscode.Diagnostic[] = [];
+            for (const requirement of manifest.requirements) {
+                for (const conflict of conflictsInvolving(this._conflicts, requirement.name)) {
+                    const range = new vscode.Range(requirement.line, requirement.nameStart, requirement.line, requirement.nameEnd);
+                    const diagnostic = new vscode.Diagnostic(range, conflict.message, vscode.DiagnosticSeverity.Warning);
+                    diagnostic.source = 'pip check';
+                    diagnostics.push(diagnostic);
+                }
+            }
+            if (diagnostics.length) {
+                this.collection.set(vscode.Uri.file(manifest.file), diagnostics);
+            }
+        }
+    }
+}
@@ -0,0 +1,133 @@
+import * as utils from '@/utils';
+import { EnvironmentReport, InspectedDistribution } from './EnvironmentReport';
+
+export interface DependencyEdge {
+    /** Normalized name of the required distribution */
+    key: string;
+    /** Name as the requirement spells it */
+    name: string;
+    specifier: string;
+}
+
+/**
+ * Requirements between the distributions of one environment, from their Requires-Dist metadata.
+ * Requirements behind an extra or a marker that does not hold for the interpreter are left out,
+ * the way pipdeptree does.
+ */
+export class DependencyGraph {
+    private readonly packages = new Map<string, InspectedDistribution>();
+    private readonly edges = new Map<string, DependencyEdge[]>();
+    private readonly reverse = new Map<string, { key: string; specifier: string }[]>();
+
+    constructor(report: EnvironmentReport) {
+        for (const dist of report.packages) {
+            this.packages.set(utils.normalizePackageName(dist.name), dist);
+        }
+        for (const [key, dist] of this.packages) {
+            const edges: DependencyEdge[] = [];
+            for (const entry of dist.requires || []) {
+                const requirement = utils.parseRequirement(entry);
+                if (!requirement || (requirement.marker && !utils.evaluateMarker(requirement.marker, { ...report.markers, extra: '' }))) {
+                    continue;
+                }
+                const dependency = utils.normalizePackageName(requirement.name);
+                if (dependency === key || edges.some((edge) => edge.key === dependency)) {
+                    continue;
+                }
+                edges.push({ key: dependency, name: requirement.name, specifier: requirement.specifier });
+                const dependents = this.reverse.get(dependency) || [];
+                dependents.push({ key, specifier: requirement.specifier });
+                this.reverse.set(dependency, dependents);
+            }
+            this.edges.set(key, edges);
+        }
+    }
+
+    get(name: string): InspectedDistribution | undefined {
+        return this.packages.get(utils.normalizePackageName(name));
+    }
+
+    /** Every installed distribution, sorted by name */
+    all(): InspectedDistribution[] {
+        return [...this.packages.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    dependencies(name: string): DependencyEdge[] {
+        return this.edges.get(utils.normalizePackageName(name)) || [];
+    }
+
+    /**
+     * Installed distributions requiring `name`, with the specifier each one asks for
+     */
+    dependents(name: string): { dist: InspectedDistribution; specifier: string }[] {
+        return (this.reverse.get(utils.normalizePackageName(name)) || [])
+            .map(({ key, specifier }) => ({ dist: this.packages.get(key)!, specifier }))
+            .sort((a, b) => a.dist.name.localeCompare(b.dist.name));
+    }
+
+    /**
+     * Distributions nothing else requires. Packages that only require each other in a cycle have no
+     * such entry point, the first of each cycle is added so every package is reachable.
+     */
+    roots(): InspectedDistribution[] {
+        const roots = this.all().filter((dist) => !this.reverse.get(utils.normalizePackageName(dist.name))?.length);
+        const reached = new Set<string>();
+        const visit = (key: string) => {
+            if (reached.has(key) || !this.packages.has(key)) {
+                return;
+            }
+            reached.add(key);
+            this.dependencies(key).forEach((edge) => visit(edge.key));
+        };
+        roots.forEach((dist) => visit(utils.normalizePackageName(dist.name)));
+        for (const dist of this.all()) {
+            const key = utils.normalizePackageName(dist.name);
+            if (!reached.has(key)) {
+                roots.push(dist);
+                visit(key);
+            }
+        }
+        return roots;
+    }
+
+    isTopLevel(name: string) {
+        return !this.reverse.get(utils.normalizePackageName(name))?.length;
+    }
+
+    /**
+     * Requirements of `name`, direct or transitive, that nothing else needs once it is gone.
+     * Packages in `keep` stay, and so does everything they or any other remaining package require.
+     */
+    unusedAfterRemoving(name: string, keep: Set<string>): InspectedDistribution[] {
+        const target = utils.normalizePackageName(name);
+        const candidates = new Set<string>();
+        const collect = (key: string) => {
+            for (const edge of this.dependencies(key)) {
+                if (edge.key !== target && !candidates.has(edge.key) && this.packages.has(edge.key)) {
+                    candidates.add(edge.key);
+                    collect(edge.key);
+                }
+            }
+        };
+        collect(target);
+
+        // Whatever stays installed keeps its whole requirement closure
+        const needed = new Set<string>();
+        const visit = (key: string) => {
+            if (key === target || needed.has(key)) {
+                return;
+            }
+            needed.add(key);
+            this.dependencies(key).forEach((edge) => visit(edge.key));
+        };
+        for (const key of this.packages.keys()) {
+            if (key !== target && (!candidates.has(key) || keep.has(key))) {
+                visit(key);
+            }
+        }
+        return [...candidates]
+            .filter((key) => !needed.has(key))
+            .map((key) => this.packages.get(key)!)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
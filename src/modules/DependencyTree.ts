@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext } from '@/interface/common';
+import { IPackageManager } from './PackageManager';
+import { DependencyGraph } from './DependencyGraph';
+
+export interface IDependencyTree {
+    refresh(): void;
+    expandAll(): void;
+    collapseAll(): void;
+}
+
+export const IDependencyTree = createDecorator<IDependencyTree>('dependencyTree');
+
+/** Levels Expand All opens, deeper nodes stay collapsed until opened by hand */
+const EXPAND_ALL_DEPTH = 3;
+
+interface DependencyNode {
+    key: string;
+    name: string;
+    /** Installed version, missing when the requirement is not installed */
+    version?: string;
+    /** What the parent requires, undefined for top-level nodes */
+    specifier?: string;
+    /** Keys from the root down to this node */
+    path: string[];
+    /** Requires one of its own ancestors, shown as a leaf to stop the recursion */
+    cycle: boolean;
+    topLevel: boolean;
+}
+
+/**
+ * Native tree of the environment's packages with their requirements nested under them, like pipdeptree
+ */
+export class DependencyTree implements IDependencyTree, vscode.TreeDataProvider<DependencyNode> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private readonly view: vscode.TreeView<DependencyNode>;
+    private graph?: Promise<DependencyGraph>;
+    private expanded = false;
+    /** Part of every node id, changing it makes VS Code forget expansion state */
+    private generation = 0;
+
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) {
+        this.view = vscode.window.createTreeView('pydep-pilot-dependencies', { treeDataProvider: this });
+        this.context.subscriptions.push(
+            this.view,
+            this._onDidChangeTreeData,
+            this.pip.onDidChangePackages(() => this.refresh()),
+        );
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IDependencyTree>(DependencyTree);
+        if (service) {
+            service.set(IDependencyTree, instance);
+        }
+        return instance;
+    }
+
+    refresh() {
+        this.graph = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    expandAll() {
+        this.expanded = true;
+        this.generation++;
+        this._onDidChangeTreeData.fire();
+    }
+
+    collapseAll() {
+        this.expanded = false;
+        this.generation++;
+        this._onDidChangeTreeData.fire();
+    }
+
+    private getGraph() {
+        if (!this.graph) {
+            this.graph = this.pip.getDependencyGraph();
+            this.graph.catch(() => {
+                this.graph = undefined;
+            });
+        }
+        return this.graph;
+    }
+
+    async getChildren(node?: DependencyNode): Promise<DependencyNode[]> {
+        let graph: DependencyGraph;
+        try {
+            graph = await this.getGraph();
+            this.view.message = undefined;
+        } catch (err) {
+            this.view.message = `Could not read the environment: ${err}`;
+            return [];
+        }
+
+        if (!node) {
+            return graph.roots().map((dist) => {
+                const key = utils.normalizePackageName(dist.name);
+                return { key, name: dist.name, version: dist.version, path: [key], cycle: false, topLevel: graph.isTopLevel(key) };
+            });
+        }
+        if (node.cycle) {
+            return [];
+        }
+        return graph.dependencies(node.key).map((edge) => ({
+            key: edge.key,
+            name: graph.get(edge.key)?.name || edge.name,
+            version: graph.get(edge.key)?.version,
+            specifier: edge.specifier,
+            path: [...node.path, edge.key],
+            cycle: node.path.includes(edge.key),
+            topLevel: false,
+        }));
+    }
+
+    async getTreeItem(node: DependencyNode): Promise<vscode.TreeItem> {
+        const graph = await this.getGraph();
+        const hasChildren = !node.cycle && node.version !== undefined && graph.dependencies(node.key).length > 0;
+        // Shared requirements repeat under every parent, expanding without a limit grows the tree exponentially
+        const expand = this.expanded && node.path.length < EXPAND_ALL_DEPTH;
+        const item = new vscode.TreeItem(node.name, hasChildren
+            ? (expand ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed)
+            : vscode.TreeItemCollapsibleState.None);
+        item.id = `${this.generation}:${node.path.join('/')}`;
+
+        const notes: string[] = [];
+        if (node.specifier !== undefined) {
+            notes.push(`requires ${node.specifier || 'any'}`);
+        }
+        if (node.cycle) {
+            notes.push('cycle');
+        }
+        if (node.version === undefined) {
+            notes.push('not installed');
+        }
+        item.description = [node.version, ...notes].filter(Boolean).join(' · ');
+
+        if (node.version === undefined) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        } else if (node.cycle) {
+            item.iconPath = new vscode.ThemeIcon('sync');
+            item.tooltip = `Dependency cycle: ${node.path.map((key) => graph.get(key)?.name || key).join(' → ')}`;
+        } else {
+            item.iconPath = new vscode.ThemeIcon(node.topLevel ? 'package' : 'circle-small');
+            item.tooltip = node.topLevel ? `${node.name} ${node.version}, not required by any other package` : `${node.name} ${node.version}`;
+        }
+        item.contextValue = node.version === undefined ? 'missingDependency' : 'dependency';
+        if (node.version !== undefined) {
+            item.command = { title: 'Show Package Details', command: 'pydep-pilot.showPackageDetails', arguments: [node.name] };
+        }
+        return item;
+    }
+}
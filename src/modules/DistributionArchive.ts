@@ -0,0 +1,107 @@
+import * as zlib from 'zlib';
+
+/**
+ * Reading single text files out of downloaded distributions: wheels and zip sdists (zip),
+ * and `.tar.gz` sdists. Only stored and deflated zip entries are supported, which is what wheels use.
+ */
+
+export interface DistributionFile {
+    filename: string;
+    data: Buffer;
+}
+
+export interface ArchiveEntry {
+    /** Path inside the archive, `/` separated */
+    path: string;
+    text: string;
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const TAR_BLOCK = 512;
+
+function readZipEntries(data: Buffer, wanted: (entryPath: string) => boolean): ArchiveEntry[] {
+    // The end record sits at the very end, followed by a comment of at most 64 KiB
+    let end = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+        if (data.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) {
+        throw new Error('Not a zip archive');
+    }
+
+    const entries: ArchiveEntry[] = [];
+    const count = data.readUInt16LE(end + 10);
+    let offset = data.readUInt32LE(end + 16);
+    for (let n = 0; n < count && data.readUInt32LE(offset) === ZIP_CENTRAL_DIRECTORY_ENTRY; n++) {
+        const method = data.readUInt16LE(offset + 10);
+        const compressedSize = data.readUInt32LE(offset + 20);
+        const nameLength = data.readUInt16LE(offset + 28);
+        const localOffset = data.readUInt32LE(offset + 42);
+        const entryPath = data.toString('utf-8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+        if (!wanted(entryPath) || (method !== 0 && method !== 8)) {
+            continue;
+        }
+        // The local header repeats the name with its own extra field length
+        const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+        const raw = data.subarray(start, start + compressedSize);
+        entries.push({ path: entryPath, text: (method === 8 ? zlib.inflateRawSync(raw) : raw).toString('utf-8') });
+    }
+    return entries;
+}
+
+function readTarEntries(data: Buffer, wanted: (entryPath: string) => boolean): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let longPath: string | undefined;
+    for (let offset = 0; offset + TAR_BLOCK <= data.length;) {
+        const header = data.subarray(offset, offset + TAR_BLOCK);
+        if (header.every((byte) => byte === 0)) {
+            break;
+        }
+        const field = (start: number, length: number) => header.toString('utf-8', start, start + length).replace(/\0[\s\S]*$/, '');
+        const size = parseInt(field(124, 12).trim() || '0', 8);
+        const type = field(156, 1);
+        const prefix = field(345, 155);
+        const entryPath = longPath ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+        const body = data.subarray(offset + TAR_BLOCK, offset + TAR_BLOCK + size);
+        offset += TAR_BLOCK + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+        longPath = undefined;
+
+        // Names longer than 100 characters come in a header of their own before the entry
+        if (type === 'x') {
+            longPath = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString('utf-8'))?.[1];
+        } else if (type === 'L') {
+            longPath = body.toString('utf-8').replace(/\0[\s\S]*$/, '');
+        } else if ((type === '0' || type === '') && wanted(entryPath)) {
+            entries.push({ path: entryPath, text: body.toString('utf-8') });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Text of the entries `wanted` accepts. Formats other than zip, wheel and `.tar.gz` have none.
+ */
+export function readArchiveEntries(file: DistributionFile, wanted: (entryPath: string) => boolean): ArchiveEntry[] {
+    const name = file.filename.toLowerCase();
+    if (name.endsWith('.whl') || name.endsWith('.zip')) {
+        return readZipEntries(file.data, wanted);
+    }
+    if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+        return readTarEntries(zlib.gunzipSync(file.data), wanted);
+    }
+    return [];
+}
+
+/**
+ * CHANGELOG, CHANGES and HISTORY files in the sdist's root directory, a docs directory below it or the wheel's
+ * `.dist-info`, at most three levels deep
+ */
+export function isChangelogPath(entryPath: string): boolean {
+    const parts = entryPath.split('/').filter(Boolean);
+    return parts.length <= 3 && /^(changelog|changes|history)([._-][^/]*)?$/i.test(parts[parts.length - 1] || '');
+}
@@ -0,0 +1,126 @@
+import * as path from 'path';
+import * as utils from '@/utils';
+
+/**
+ * What the interpreter knows about an installed distribution, from `pip inspect`
+ * or the bundled python/inspect_environment.py
+ */
+export interface DistributionDetails {
+    summary?: string;
+    license?: string;
+    author?: string;
+    /** Label → URL, the home page included as `Homepage` */
+    projectUrls?: Record<string, string>;
+    /** Requires-Dist entries, markers included */
+    requires?: string[];
+    /** Directory the distribution is installed into */
+    location?: string;
+    /** Tool that installed it, e.g. `pip` or `uv` */
+    installer?: string;
+    /** Installed on its own rather than as a dependency */
+    requested?: boolean;
+    editable?: boolean;
+    /** URL it was installed from when that was not an index */
+    directUrl?: string;
+}
+
+export interface InspectedDistribution extends DistributionDetails {
+    name: string;
+    version: string;
+}
+
+export interface EnvironmentReport {
+    /** Missing when the fallback script produced the report */
+    pipVersion?: string;
+    pythonVersion?: string;
+    /** PEP 508 marker values of the interpreter */
+    markers: Record<string, string>;
+    packages: InspectedDistribution[];
+}
+
+/**
+ * Prefer the SPDX expression, then a short License field, then the license classifiers.
+ * Some projects paste their entire license text into License.
+ */
+function licenseOf(metadata: any): string | undefined {
+    if (metadata.license_expression) {
+        return metadata.license_expression;
+    }
+    const license = typeof metadata.license === 'string' ? metadata.license.trim() : '';
+    if (license && license.length <= 80 && !license.includes('\n')) {
+        return license;
+    }
+    const classifiers: string[] = (metadata.classifier || [])
+        .filter((classifier: string) => classifier.startsWith('License ::'))
+        .map((classifier: string) => classifier.split('::').pop()!.trim());
+    return classifiers.length ? classifiers.join(', ') : undefined;
+}
+
+function projectUrlsOf(metadata: any): Record<string, string> | undefined {
+    const urls: Record<string, string> = {};
+    if (metadata.home_page && metadata.home_page !== 'UNKNOWN') {
+        urls.Homepage = metadata.home_page;
+    }
+    for (const entry of metadata.project_url || []) {
+        const comma = String(entry).indexOf(',');
+        if (comma > 0) {
+            urls[entry.slice(0, comma).trim()] = entry.slice(comma + 1).trim();
+        }
+    }
+    return Object.keys(urls).length ? urls : undefined;
+}
+
+function authorOf(metadata: any): string | undefined {
+    const author = metadata.author || metadata.author_email || metadata.maintainer || metadata.maintainer_email;
+    return typeof author === 'string' && author.trim() ? author.trim() : undefined;
+}
+
+/**
+ * Turn `pip inspect` JSON (report version 1) into the extension's package details
+ */
+export function parseInspectReport(data: any): EnvironmentReport {
+    const installed: any[] = Array.isArray(data?.installed) ? data.installed : [];
+    const packages: InspectedDistribution[] = [];
+    for (const item of installed) {
+        const metadata = item?.metadata;
+        if (!metadata?.name || !metadata.version) {
+            continue;
+        }
+        const directUrl = item.direct_url;
+        packages.push({
+            name: metadata.name,
+            version: metadata.version,
+            summary: metadata.summary || undefined,
+            license: licenseOf(metadata),
+            author: authorOf(metadata),
+            projectUrls: projectUrlsOf(metadata),
+            requires: Array.isArray(metadata.requires_dist) ? metadata.requires_dist : [],
+            location: item.metadata_location ? path.dirname(item.metadata_location) : undefined,
+            installer: item.installer || undefined,
+            requested: typeof item.requested === 'boolean' ? item.requested : undefined,
+            editable: !!directUrl?.dir_info?.editable,
+            directUrl: directUrl?.url || undefined,
+        });
+    }
+    return {
+        pipVersion: data?.pip_version || undefined,
+        pythonVersion: data?.environment?.python_full_version || data?.environment?.python_version || undefined,
+        markers: { ...data?.environment },
+        packages,
+    };
+}
+
+/**
+ * Copy report details onto a backend's package list, matching PEP 503 normalized names
+ */
+export function mergeEnvironmentReport<T extends { name: string }>(packages: T[], report: EnvironmentReport): (T & DistributionDetails)[] {
+    const details = new Map(report.packages.map((pkg) => [utils.normalizePackageName(pkg.name), pkg]));
+    return packages.map((pkg) => {
+        const found = details.get(utils.normalizePackageName(pkg.name));
+        if (!found) {
+            return pkg;
+        }
+        // The backend's own name and version win
+        return { ...found, ...pkg };
+    });
+}
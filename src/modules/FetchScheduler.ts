@@ -0,0 +1,138 @@
+import axios from 'axios';
+
+export interface FetchSchedulerOptions {
+    /** Most requests in flight at once, the scheduler backs off below this on 429 */
+    maxConcurrency: number;
+    /** Attempts after the first one for retryable failures */
+    retries?: number;
+    /** First retry delay in milliseconds, doubled on every attempt */
+    baseDelay?: number;
+    maxDelay?: number;
+}
+
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'];
+
+/**
+ * Rate limiting, server errors and dropped connections are worth another try, anything else is final
+ */
+export function isRetryableError(err: any) {
+    if (axios.isCancel(err)) {
+        return false;
+    }
+    const status: number | undefined = err?.response?.status;
+    if (status) {
+        return status === 429 || status >= 500;
+    }
+    return RETRYABLE_NETWORK_ERRORS.includes(err?.code);
+}
+
+/**
+ * Delay before retry `attempt` (0 based): the server's Retry-After when it sent one,
+ * otherwise exponential backoff with jitter
+ */
+export function retryDelay(err: any, attempt: number, baseDelay: number, maxDelay: number) {
+    const retryAfter = err?.response?.headers?.['retry-after'];
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+        if (Number.isFinite(ms)) {
+            return Math.min(maxDelay, Math.max(0, ms));
+        }
+    }
+    const backoff = Math.min(maxDelay, baseDelay * 2 ** attempt);
+    return backoff / 2 + Math.random() * backoff / 2;
+}
+
+function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Shared pool for index requests. Runs up to a concurrency limit, halves the limit when the index
+ * answers 429 and grows it back one step per round of successes.
+ */
+export class FetchScheduler {
+    private active = 0;
+    private limit: number;
+    private successes = 0;
+    private readonly waiting: (() => void)[] = [];
+
+    constructor(private readonly options: FetchSchedulerOptions) {
+        this.limit = Math.max(1, options.maxConcurrency);
+    }
+
+    get concurrency() {
+        return this.limit;
+    }
+
+    setMaxConcurrency(maxConcurrency: number) {
+        this.options.maxConcurrency = Math.max(1, maxConcurrency);
+        this.limit = this.options.maxConcurrency;
+        this.next();
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => this.waiting.push(() => {
+            this.active++;
+            resolve();
+        }));
+    }
+
+    private release() {
+        this.active--;
+        this.next();
+    }
+
+    private next() {
+        while (this.active < this.limit && this.waiting.length) {
+            this.waiting.shift()!();
+        }
+    }
+
+    private onSuccess() {
+        if (++this.successes >= this.limit && this.limit < this.options.maxConcurrency) {
+            this.successes = 0;
+            this.limit++;
+            this.next();
+        }
+    }
+
+    private onFailure(err: any) {
+        if (err?.response?.status === 429) {
+            this.successes = 0;
+            this.limit = Math.max(1, Math.floor(this.limit / 2));
+        }
+    }
+
+    /**
+     * Run a request in the pool, retrying it with backoff while it fails in a retryable way
+     */
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        const retries = this.options.retries ?? 3;
+        const baseDelay = this.options.baseDelay ?? 500;
+        const maxDelay = this.options.maxDelay ?? 30000;
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire();
+            let delay: number;
+            try {
+                const result = await task();
+                this.onSuccess();
+                return result;
+            } catch (err) {
+                this.onFailure(err);
+                if (attempt >= retries || !isRetryableError(err)) {
+                    throw err;
+                }
+                delay = retryDelay(err, attempt, baseDelay, maxDelay);
+            } finally {
+                this.release();
+            }
+            // Wait outside the pool so other requests keep going
+            await sleep(delay);
+        }
+    }
+}
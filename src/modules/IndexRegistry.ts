@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext } from '@/interface/common';
+import { PYPI_SIMPLE_URL } from './PackageIndex';
+
+export interface PackageIndexConfig {
+    url: string;
+    /** Use this index instead of `customPypiUrl` as the main index */
+    primary?: boolean;
+    /** Package name patterns such as `acme-*` this index serves, unscoped indexes serve every package */
+    packages?: string[];
+}
+
+export interface IndexCredentials {
+    username: string;
+    password: string;
+}
+
+/** Index URLs for one pip command, credentials included. Only what the user configured, pip's own config covers the rest. */
+export interface PipIndexes {
+    /** Missing unless `customPypiUrl` or a primary index is set */
+    indexUrl?: string;
+    extraIndexUrls: string[];
+}
+
+export interface IIndexRegistry {
+    readonly onDidChange: vscode.Event<void>;
+    /** Primary index first, then the extra indexes */
+    getIndexes(): PackageIndexConfig[];
+    /** Indexes to read a package's metadata from */
+    indexesFor(packageName: string): PackageIndexConfig[];
+    /**
+     * Indexes for a pip command, credentials included. Scoped indexes only join when one of `packageNames`
+     * matches them, without names every index is used.
+     */
+    pipIndexes(packageNames?: string[]): Promise<PipIndexes>;
+    getCredentials(url: string): Promise<IndexCredentials | undefined>;
+    setCredentials(url: string, credentials: IndexCredentials): Promise<void>;
+    deleteCredentials(url: string): Promise<void>;
+}
+
+export const IIndexRegistry = createDecorator<IIndexRegistry>('indexRegistry');
+
+const SECRET_PREFIX = 'pydep-pilot.index:';
+
+export function normalizeIndexUrl(url: string) {
+    return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Whether a package name matches a pattern like `acme-*`, compared in PEP 503 normalized form
+ */
+export function matchesPackagePattern(packageName: string, pattern: string) {
+    const escaped = utils.normalizePackageName(pattern.trim())
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${escaped}$`).test(utils.normalizePackageName(packageName));
+}
+
+/**
+ * Index URL with credentials in its userinfo, the form pip reads from `PIP_INDEX_URL`
+ */
+export function withCredentials(url: string, credentials?: IndexCredentials) {
+    if (!credentials) {
+        return url;
+    }
+    try {
+        const parsed = new URL(url);
+        parsed.username = encodeURIComponent(credentials.username);
+        parsed.password = encodeURIComponent(credentials.password);
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Indexes an install may resolve against. pip picks the newest version across all of them, so a scoped
+ * index only joins installs that ask for one of its packages and never serves anything else.
+ */
+export function selectInstallIndexes(indexes: PackageIndexConfig[], packageNames?: string[]): PackageIndexConfig[] {
+    if (!packageNames) {
+        return indexes;
+    }
+    return indexes.filter((index) => index.primary || !index.packages?.length
+        || packageNames.some((name) => index.packages!.some((pattern) => matchesPackagePattern(name, pattern))));
+}
+
+/**
+ * Configured package indexes and their credentials, which live in SecretStorage rather than settings
+ */
+export class IndexRegistry implements IIndexRegistry {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) {
+        this.context.subscriptions.push(
+            this._onDidChange,
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('pydep-pilot.customPypiUrl') || e.affectsConfiguration('pydep-pilot.indexes')) {
+                    this._onDidChange.fire();
+                }
+            }),
+            this.context.secrets.onDidChange((e) => {
+                if (e.key.startsWith(SECRET_PREFIX)) {
+                    this._onDidChange.fire();
+                }
+            }),
+        );
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IIndexRegistry>(this);
+        if (service) {
+            service.set(IIndexRegistry, instance);
+        }
+        return instance;
+    }
+
+    getIndexes(): PackageIndexConfig[] {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        const configured = config.get<PackageIndexConfig[]>('indexes', [])
+            .filter((index) => index && typeof index.url === 'string' && index.url.trim())
+            .map((index) => ({ ...index, url: normalizeIndexUrl(index.url) }));
+        const primary = configured.find((index) => index.primary)
+            || { url: normalizeIndexUrl(config.get<string>('customPypiUrl', '') || PYPI_SIMPLE_URL), primary: true };
+        const extras = configured.filter((index) => index !== primary && !index.primary);
+        return [{ url: primary.url, primary: true }, ...extras];
+    }
+
+    /**
+     * Indexes scoped to a package serve it alone, so a public index cannot shadow a private name.
+     * Other packages come from the primary and unscoped extra indexes.
+     */
+    indexesFor(packageName: string): PackageIndexConfig[] {
+        const indexes = this.getIndexes();
+        const scoped = indexes.filter((index) => index.packages?.some((pattern) => matchesPackagePattern(packageName, pattern)));
+        if (scoped.length) {
+            return scoped;
+        }
+        return indexes.filter((index) => index.primary || !index.packages?.length);
+    }
+
+    /**
+     * Whether the main index was set by the user rather than defaulted to PyPI
+     */
+    private hasConfiguredPrimary() {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        return !!config.get<string>('customPypiUrl', '').trim()
+            || config.get<PackageIndexConfig[]>('indexes', []).some((index) => index?.primary && typeof index.url === 'string' && index.url.trim());
+    }
+
+    async pipIndexes(packageNames?: string[]): Promise<PipIndexes> {
+        const [primary, ...extras] = selectInstallIndexes(this.getIndexes(), packageNames);
+        const withSecret = async (index: PackageIndexConfig) => withCredentials(index.url, await this.getCredentials(index.url));
+        return {
+            indexUrl: this.hasConfiguredPrimary() ? await withSecret(primary) : undefined,
+            extraIndexUrls: await Promise.all(extras.map(withSecret)),
+        };
+    }
+
+    async getCredentials(url: string): Promise<IndexCredentials | undefined> {
+        const stored = await this.context.secrets.get(SECRET_PREFIX + normalizeIndexUrl(url));
+        if (!stored) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(stored) as IndexCredentials;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async setCredentials(url: string, credentials: IndexCredentials) {
+        await this.context.secrets.store(SECRET_PREFIX + normalizeIndexUrl(url), JSON.stringify(credentials));
+    }
+
+    async deleteCredentials(url: string) {
+        await this.context.secrets.delete(SECRET_PREFIX + normalizeIndexUrl(url));
+    }
+}
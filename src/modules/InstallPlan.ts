@@ -0,0 +1,68 @@
+import * as utils from '@/utils';
+import { ReportedInstall } from './backends';
+
+export type PlannedChangeKind = 'install' | 'upgrade' | 'downgrade' | 'reinstall';
+
+export interface PlannedChange {
+    name: string;
+    /** Installed version, missing for a new install */
+    from?: string;
+    to: string;
+    kind: PlannedChangeKind;
+    requested: boolean;
+}
+
+const KIND_ORDER: PlannedChangeKind[] = ['downgrade', 'upgrade', 'install', 'reinstall'];
+
+const KIND_LABELS: Record<PlannedChangeKind, string> = {
+    downgrade: 'Downgrade',
+    upgrade: 'Upgrade',
+    install: 'Install',
+    reinstall: 'Reinstall',
+};
+
+/**
+ * Compare what an installation report would install with what is installed now.
+ * Downgrades come first, they are the changes most likely to break something.
+ */
+export function planChanges(reported: ReportedInstall[], installed: { name: string; version: string }[]): PlannedChange[] {
+    const versions = new Map(installed.map((pkg) => [utils.normalizePackageName(pkg.name), pkg.version]));
+    return reported
+        .map((item): PlannedChange => {
+            const from = versions.get(utils.normalizePackageName(item.name));
+            const order = from === undefined ? undefined : utils.compareVersions(item.version, from);
+            const kind = order === undefined ? 'install' : order > 0 ? 'upgrade' : order < 0 ? 'downgrade' : 'reinstall';
+            return { name: item.name, from, to: item.version, kind, requested: item.requested };
+        })
+        .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.name.localeCompare(b.name));
+}
+
+/**
+ * One line per change, e.g. `Upgrade urllib3 1.26.18 → 2.2.1`. Dependencies the user did not ask for are marked.
+ */
+export function formatPlannedChanges(changes: PlannedChange[]): string {
+    return changes.map((change) => {
+        const versions = change.from !== undefined && change.kind !== 'reinstall' ? `${change.from} → ${change.to}` : change.to;
+        return `${KIND_LABELS[change.kind]} ${change.name} ${versions}${change.requested ? '' : ' (dependency)'}`;
+    }).join('\n');
+}
+
+/**
+ * Counts per kind, e.g. `2 upgraded, 1 new`
+ */
+export function summarizePlannedChanges(changes: PlannedChange[]): string {
+    const words: Record<PlannedChangeKind, string> = { downgrade: 'downgraded', upgrade: 'upgraded', install: 'new', reinstall: 'reinstalled' };
+    return KIND_ORDER
+        .map((kind) => [kind, changes.filter((change) => change.kind === kind).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([kind, count]) => `${count} ${words[kind]}`)
+        .join(', ');
+}
+
+/**
+ * Whether pip failed because the requested versions cannot be installed together or do not exist,
+ * as opposed to a network or index problem the install itself might not run into
+ */
+export function isResolutionFailure(message: string): boolean {
+    return /ResolutionImpossible|No matching distribution found|Could not find a version that satisfies/.test(message);
+}
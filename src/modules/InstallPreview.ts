@@ -0,0 +1,106 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IOutputChannel } from '@/interface/common';
+import { IPackageManager } from './PackageManager';
+import { InstallRequest } from './backends';
+import { PlannedChange, formatPlannedChanges, isResolutionFailure, summarizePlannedChanges } from './InstallPlan';
+
+export interface IInstallPreview {
+    /**
+     * Resolve an install without running it, list what it would change and ask to go ahead.
+     * True when the install should run.
+     */
+    confirm(request: InstallRequest): Promise<boolean>;
+}
+
+export const IInstallPreview = createDecorator<IInstallPreview>('installPreview');
+
+/** pip ends its errors with the useful part, the dialog shows only that */
+const MAX_ERROR_LINES = 15;
+
+export class InstallPreview implements IInstallPreview {
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+        @IOutputChannel private readonly output: IOutputChannel,
+    ) { }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IInstallPreview>(InstallPreview);
+        if (service) {
+            service.set(IInstallPreview, instance);
+        }
+        return instance;
+    }
+
+    private describeRequest(request: InstallRequest) {
+        if (request.type === 'requirements') {
+            return path.basename(request.filePath);
+        }
+        return request.specs.length === 1 ? request.specs[0] : `${request.specs.length} packages`;
+    }
+
+    /**
+     * A resolution error would fail the install the same way, so only other failures, such as an index
+     * that could not be reached, offer to install without the preview
+     */
+    private async confirmFailedPreview(request: InstallRequest, target: string, message: string) {
+        this.output.appendLine(`Preview of ${target} failed: ${message}`);
+        const detail = message.trim().split('\n').slice(-MAX_ERROR_LINES).join('\n');
+        if (isResolutionFailure(message)) {
+            vscode.window.showErrorMessage(`${target} cannot be installed, its requirements conflict or are not available`, { modal: true, detail });
+            return false;
+        }
+        const action = request.type === 'update' ? 'Update Anyway' : 'Install Anyway';
+        const choice = await vscode.window.showWarningMessage(`Could not preview the changes for ${target}`, { modal: true, detail }, action);
+        return choice === action;
+    }
+
+    async confirm(request: InstallRequest): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        if (request.type === 'update' && request.specs.length === 1 && !config.get<boolean>('previewSingleUpdates', true)) {
+            return true;
+        }
+
+        const target = this.describeRequest(request);
+        let changes: PlannedChange[] | undefined;
+        let cancelled = false;
+        try {
+            changes = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Resolving ${target}`,
+                cancellable: true,
+            }, (progress, cancelToken) => {
+                cancelToken.onCancellationRequested(() => {
+                    cancelled = true;
+                });
+                return this.pip.previewInstall(request, cancelToken);
+            });
+        } catch (err: any) {
+            if (cancelled) {
+                return false;
+            }
+            return this.confirmFailedPreview(request, target, String(err?.message || err));
+        }
+        if (cancelled) {
+            return false;
+        }
+        if (!changes) {
+            return true;
+        }
+        if (!changes.length) {
+            vscode.window.showInformationMessage(`Nothing to install for ${target}, everything it needs is already installed`);
+            return false;
+        }
+
+        const action = request.type === 'update' ? 'Update' : 'Install';
+        const hasDowngrades = changes.some((change) => change.kind === 'downgrade');
+        const show = hasDowngrades ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+        const choice = await show(
+            `${action} ${target}? ${changes.length === 1 ? '1 package changes' : `${changes.length} packages change`}: ${summarizePlannedChanges(changes)}`,
+            { modal: true, detail: formatPlannedChanges(changes) },
+            action
+        );
+        return choice === action;
+    }
+}
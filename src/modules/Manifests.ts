@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as utils from '@/utils';
+
+export interface ManifestRequirement {
+    name: string;
+    specifier: string;
+    marker?: string;
+    /** 0 based line of the requirement */
+    line: number;
+    /** Columns of the package name on that line */
+    nameStart: number;
+    nameEnd: number;
+    /** Columns of the version specifiers as written, an empty range after the name when there are none */
+    specifierStart: number;
+    specifierEnd: number;
+}
+
+/**
+ * Where the parts of a parsed requirement sit in the text it came from, `offset` being the column of that text
+ */
+function locateRequirement(text: string, offset: number, line: number, requirement: utils.Requirement): ManifestRequirement {
+    const nameStart = text.indexOf(requirement.name);
+    let cursor = nameStart + requirement.name.length;
+    const extras = /^\s*\[[^\]]*\]/.exec(text.slice(cursor));
+    if (extras) {
+        cursor += extras[0].length;
+    }
+    const semicolon = text.indexOf(';', cursor);
+    const specifier = text.slice(cursor, semicolon < 0 ? text.length : semicolon);
+    const specifierStart = cursor + specifier.length - specifier.trimStart().length;
+    return {
+        name: requirement.name,
+        specifier: requirement.specifier,
+        marker: requirement.marker,
+        line,
+        nameStart: offset + nameStart,
+        nameEnd: offset + nameStart + requirement.name.length,
+        specifierStart: offset + specifierStart,
+        specifierEnd: offset + Math.max(specifierStart, cursor + specifier.trimEnd().length),
+    };
+}
+
+/**
+ * A requirements file line without its comment, line continuation and per-requirement options.
+ * A comment needs whitespace before `#` unless it starts the line, URLs keep their fragments.
+ */
+function requirementContent(raw: string) {
+    return raw
+        .replace(/(^|\s)#.*$/, '')
+        .replace(/\\\s*$/, '')
+        .replace(/\s+--?[a-z][\w-]*(=\S+|\s+\S+)?/gi, '');
+}
+
+/**
+ * Requirements of a requirements.txt file. Options (`-r`, `-e`, `--hash`...), URLs and comments are skipped.
+ */
+export function parseRequirementsText(text: string): ManifestRequirement[] {
+    const requirements: ManifestRequirement[] = [];
+    text.split(/\r?\n/).forEach((raw, line) => {
+        const content = requirementContent(raw);
+        if (!content.trim() || content.trim().startsWith('-')) {
+            return;
+        }
+        const requirement = utils.parseRequirement(content);
+        if (!requirement || requirement.url) {
+            return;
+        }
+        requirements.push(locateRequirement(content, 0, line, requirement));
+    });
+    return requirements;
+}
+
+/**
+ * Lines of a requirements file that are neither options, comments nor valid requirements, with the columns of the text
+ */
+export function findInvalidRequirements(text: string): { line: number; start: number; end: number }[] {
+    const invalid: { line: number; start: number; end: number }[] = [];
+    text.split(/\r?\n/).forEach((raw, line) => {
+        const content = requirementContent(raw);
+        const trimmed = content.trim();
+        // Local paths and archive URLs are valid pip arguments without being PEP 508 requirements
+        if (!trimmed || trimmed.startsWith('-') || /^(\.{0,2}[\\/]|[a-z][\w+.-]*:\/\/)/i.test(trimmed)) {
+            return;
+        }
+        if (!utils.parseRequirement(content)) {
+            const start = content.length - content.trimStart().length;
+            invalid.push({ line, start, end: start + trimmed.length });
+        }
+    });
+    return invalid;
+}
+
+/**
+ * Requirements naming a package an earlier line already requires, unless their markers tell them apart
+ */
+export function findDuplicateRequirements(requirements: ManifestRequirement[]): { requirement: ManifestRequirement; first: ManifestRequirement }[] {
+    const duplicates: { requirement: ManifestRequirement; first: ManifestRequirement }[] = [];
+    const seen = new Map<string, ManifestRequirement>();
+    for (const requirement of requirements) {
+        const key = `${utils.normalizePackageName(requirement.name)};${(requirement.marker || '').replace(/\s+/g, '')}`;
+        const first = seen.get(key);
+        if (first) {
+            duplicates.push({ requirement, first });
+        } else {
+            seen.set(key, requirement);
+        }
+    }
+    return duplicates;
+}
+
+/**
+ * Files a requirements file pulls in with `-r` / `-c`, relative to its own directory
+ */
+export function requirementsIncludes(text: string): string[] {
+    const includes: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const match = /^\s*(?:-r|-c|--requirement|--constraint)(?:\s*=\s*|\s+)(\S+)/.exec(line);
+        if (match) {
+            includes.push(match[1]);
+        }
+    }
+    return includes;
+}
+
+/**
+ * Requirements a pyproject.toml declares: PEP 621 dependencies and optional dependencies,
+ * PEP 735 dependency groups and Poetry's dependency tables. Only the subset of TOML these use is read.
+ * Poetry constraints are not PEP 508, those entries carry the name alone.
+ */
+export function parsePyprojectDependencies(text: string): ManifestRequirement[] {
+    const dependencies: ManifestRequirement[] = [];
+    let table = '';
+    let inArray = false;
+    text.split(/\r?\n/).forEach((raw, line) => {
+        const content = raw.replace(/\s#.*$/, '');
+        if (inArray) {
+            dependencies.push(...arrayRequirements(content, 0, line));
+            // Strings may contain brackets, only a bracket outside of them closes the array
+            inArray = !/\]/.test(content.replace(/"([^"\\]|\\.)*"|'[^']*'/g, ''));
+            return;
+        }
+        const trimmed = content.trim();
+        const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(trimmed);
+        if (header) {
+            table = header[1].replace(/\s*\.\s*/g, '.').replace(/"/g, '');
+            return;
+        }
+        const assignment = /^(\s*)("?[\w.-]+"?)\s*=\s*/.exec(content);
+        if (!assignment) {
+            return;
+        }
+        const key = assignment[2].replace(/"/g, '');
+        const isArray = (table === 'project' && key === 'dependencies')
+            || table === 'project.optional-dependencies'
+            || table === 'dependency-groups';
+        const valueStart = assignment[0].length;
+        if (isArray && content.startsWith('[', valueStart)) {
+            dependencies.push(...arrayRequirements(content, valueStart, line));
+            inArray = !/\]/.test(content.slice(valueStart).replace(/"([^"\\]|\\.)*"|'[^']*'/g, ''));
+        } else if (/^tool\.poetry\.(dependencies|dev-dependencies|group\.[\w-]+\.dependencies)$/.test(table) && key !== 'python') {
+            const nameStart = content.indexOf(key);
+            const nameEnd = nameStart + key.length;
+            dependencies.push({ name: key, specifier: '', line, nameStart, nameEnd, specifierStart: nameEnd, specifierEnd: nameEnd });
+        }
+    });
+    return dependencies;
+}
+
+/**
+ * Requirement strings on one line of a dependency array. Dependency groups may include other groups
+ * with inline tables, those are not requirements.
+ */
+function arrayRequirements(content: string, from: number, line: number): ManifestRequirement[] {
+    const requirements: ManifestRequirement[] = [];
+    const strings = /\{[^}]*\}|"((?:[^"\\]|\\.)*)"|'([^']*)'/g;
+    strings.lastIndex = from;
+    let match: RegExpExecArray | null;
+    while ((match = strings.exec(content))) {
+        const value = match[1] ?? match[2];
+        const requirement = value === undefined ? null : utils.parseRequirement(value);
+        if (!requirement) {
+            continue;
+        }
+        requirements.push(locateRequirement(value!, match.index + 1, line, requirement));
+    }
+    return requirements;
+}
+
+/** What can be completed at the end of a partly typed requirement */
+export type RequirementCompletion =
+    | { kind: 'name'; prefix: string }
+    | { kind: 'version'; name: string; operator: string; prefix: string };
+
+/**
+ * Complete a package name while it is typed, or a version right after `==`, `>=` or `~=`
+ */
+export function requirementCompletionAt(text: string): RequirementCompletion | undefined {
+    const name = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)?$/.exec(text);
+    if (name) {
+        return { kind: 'name', prefix: name[1] || '' };
+    }
+    const version = /^\s*([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[[^\]]*\])?\s*\(?(?:[^;@]*,\s*)?(==|>=|~=)\s*([A-Za-z0-9.*+!_-]*)$/.exec(text);
+    if (version) {
+        return { kind: 'version', name: version[1], operator: version[2], prefix: version[3] };
+    }
+    return undefined;
+}
+
+/**
+ * Text typed so far in a requirement string of a pyproject.toml dependency array, undefined when the
+ * cursor at the end of `textBeforeCursor` is not inside one
+ */
+export function pyprojectDependencyPrefix(textBeforeCursor: string): string | undefined {
+    const closedStrings = /"(?:[^"\\\n]|\\.)*"|'[^'\n]*'/g;
+    const lines = textBeforeCursor.split(/\r?\n/);
+    let table = '';
+    let array: string | undefined;
+    lines.forEach((raw, i) => {
+        const isCursorLine = i === lines.length - 1;
+        const content = isCursorLine ? raw : raw.replace(/\s#.*$/, '');
+        if (array !== undefined) {
+            array += '\n' + content;
+        } else {
+            const header = /^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*$/.exec(content);
+            if (header) {
+                table = header[1].replace(/\s*\.\s*/g, '.').replace(/"/g, '');
+                return;
+            }
+            const assignment = /^\s*("?[\w.-]+"?)\s*=\s*\[/.exec(content);
+            const key = assignment?.[1].replace(/"/g, '');
+            if (assignment && ((table === 'project' && key === 'dependencies')
+                || table === 'project.optional-dependencies'
+                || table === 'dependency-groups')) {
+                array = content.slice(assignment[0].length);
+            }
+        }
+        // Only a bracket outside of strings, the one being typed included, closes the array
+        if (array !== undefined && /\]/.test(array.replace(closedStrings, '').replace(/["'][^"'\n]*$/, ''))) {
+            array = undefined;
+        }
+    });
+    if (array === undefined) {
+        return undefined;
+    }
+    const open = /["']([^"'\n]*)$/.exec(array.replace(closedStrings, ''));
+    return open ? open[1] : undefined;
+}
+
+async function readText(file: string) {
+    try {
+        return await fs.promises.readFile(file, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
+
+export interface Manifest {
+    /** Absolute path of a requirements file or pyproject.toml */
+    file: string;
+    requirements: ManifestRequirement[];
+}
+
+/**
+ * A requirements file and the files it includes with `-r` / `-c`, each read once
+ */
+async function readRequirementsFiles(file: string, seen: Set<string>, manifests: Manifest[] = []): Promise<Manifest[]> {
+    if (seen.has(file)) {
+        return manifests;
+    }
+    seen.add(file);
+    const text = await readText(file);
+    if (text === undefined) {
+        return manifests;
+    }
+    manifests.push({ file, requirements: parseRequirementsText(text) });
+    for (const include of requirementsIncludes(text)) {
+        await readRequirementsFiles(path.resolve(path.dirname(file), include), seen, manifests);
+    }
+    return manifests;
+}
+
+/**
+ * Files declaring the workspace's packages: requirements*.txt and requirements/*.txt at the top of
+ * each folder, the files they include, and pyproject.toml
+ */
+export async function findManifests(folders: string[]): Promise<Manifest[]> {
+    const manifests: Manifest[] = [];
+    const seen = new Set<string>();
+
+    for (const folder of folders) {
+        const candidates: string[] = [];
+        for (const dir of [folder, path.join(folder, 'requirements')]) {
+            const entries = await fs.promises.readdir(dir).catch(() => [] as string[]);
+            const inRequirementsDir = dir !== folder;
+            candidates.push(...entries
+                .filter((entry) => entry.endsWith('.txt') && (inRequirementsDir || entry.startsWith('requirements')))
+                .map((entry) => path.join(dir, entry)));
+        }
+        for (const file of candidates) {
+            await readRequirementsFiles(file, seen, manifests);
+        }
+        const pyprojectFile = path.join(folder, 'pyproject.toml');
+        const pyproject = await readText(pyprojectFile);
+        if (pyproject) {
+            manifests.push({ file: pyprojectFile, requirements: parsePyprojectDependencies(pyproject) });
+        }
+    }
+    return manifests;
+}
+
+/**
+ * Names of the packages a requirements file asks for, including the files it pulls in
+ */
+export async function requirementsFileNames(file: string): Promise<string[]> {
+    const manifests = await readRequirementsFiles(file, new Set());
+    return manifests.flatMap((manifest) => manifest.requirements.map((requirement) => requirement.name));
+}
+
+/**
+ * Normalized names of the packages the workspace declares directly
+ */
+export async function findDeclaredPackages(folders: string[]): Promise<Set<string>> {
+    const names = new Set<string>();
+    for (const manifest of await findManifests(folders)) {
+        manifest.requirements.forEach((requirement) => names.add(utils.normalizePackageName(requirement.name)));
+    }
+    return names;
+}
@@ -0,0 +1,125 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as utils from '@/utils';
+import { ConditionalFetchOptions, ConditionalResponse, ProjectPage, fetchProjectListConditional, fetchProjectPageConditional } from './PackageIndex';
+import { FetchScheduler } from './FetchScheduler';
+
+interface CacheEntry<T> {
+    indexUrl: string;
+    fetchedAt: number;
+    etag?: string;
+    lastModified?: string;
+    data: T;
+}
+
+export interface CachePolicy {
+    /** How long a page is used without asking the index again, in milliseconds */
+    ttl: number;
+    /** Never go to the network, serve whatever is cached */
+    offline: boolean;
+}
+
+export interface Cached<T> {
+    data: T;
+    /** Served past its TTL because the index was not asked or not reachable */
+    stale: boolean;
+}
+
+/** File name of an index's project list, normalized package names cannot start with `_` */
+const PROJECT_LIST_FILE = '_projects';
+
+/**
+ * Simple index pages on disk, one file per index URL and normalized package name.
+ * Expired pages are revalidated with ETag / Last-Modified before being downloaded again.
+ */
+export class MetadataCache {
+    constructor(
+        private readonly dir: string,
+        private readonly scheduler = new FetchScheduler({ maxConcurrency: 8 }),
+    ) { }
+
+    private entryPath(indexUrl: string, key: string) {
+        const index = crypto.createHash('sha1').update(indexUrl).digest('hex').slice(0, 16);
+        return path.join(this.dir, index, `${key}.json`);
+    }
+
+    private async read<T>(indexUrl: string, key: string): Promise<CacheEntry<T> | undefined> {
+        try {
+            const entry = JSON.parse(await fs.promises.readFile(this.entryPath(indexUrl, key), 'utf-8'));
+            return entry?.indexUrl === indexUrl && entry.data ? entry : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async write<T>(key: string, entry: CacheEntry<T>) {
+        const file = this.entryPath(entry.indexUrl, key);
+        try {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            // Write then rename so a concurrent reader never sees half a file
+            const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+            await fs.promises.writeFile(temp, JSON.stringify(entry));
+            await fs.promises.rename(temp, file);
+        } catch {
+            // A cache that cannot be written only costs another request next time
+        }
+    }
+
+    private async get<T>(
+        indexUrl: string,
+        key: string,
+        policy: CachePolicy,
+        fetch: (validators: { etag?: string; lastModified?: string }) => Promise<ConditionalResponse<T>>,
+    ): Promise<Cached<T>> {
+        const entry = await this.read<T>(indexUrl, key);
+        const expired = !entry || Date.now() - entry.fetchedAt >= policy.ttl;
+
+        if (entry && (!expired || policy.offline)) {
+            return { data: entry.data, stale: expired };
+        }
+        if (policy.offline) {
+            throw new Error(`No cached metadata for ${key}, offline mode is on`);
+        }
+
+        try {
+            const resp = await this.scheduler.run(() => fetch({ etag: entry?.etag, lastModified: entry?.lastModified }));
+            const data = resp.data || entry?.data;
+            if (!data) {
+                throw new Error(`Index answered 304 for ${key} without a cached copy`);
+            }
+            await this.write(key, {
+                indexUrl,
+                fetchedAt: Date.now(),
+                etag: resp.etag,
+                lastModified: resp.lastModified,
+                data,
+            });
+            return { data, stale: false };
+        } catch (err: any) {
+            // An index that is down or unreachable gets the old answer, a 4xx means the package is gone
+            const unavailable = !err?.response || err.response.status >= 500;
+            if (entry && unavailable && !axios.isCancel(err)) {
+                return { data: entry.data, stale: true };
+            }
+            throw err;
+        }
+    }
+
+    getProjectPage(indexUrl: string, packageName: string, options: ConditionalFetchOptions, policy: CachePolicy): Promise<Cached<ProjectPage>> {
+        return this.get(indexUrl, utils.normalizePackageName(packageName), policy, (validators) => {
+            return fetchProjectPageConditional(indexUrl, packageName, { ...options, ...validators });
+        });
+    }
+
+    getProjectList(indexUrl: string, options: ConditionalFetchOptions, policy: CachePolicy): Promise<Cached<string[]>> {
+        return this.get(indexUrl, PROJECT_LIST_FILE, policy, (validators) => {
+            return fetchProjectListConditional(indexUrl, { ...options, ...validators });
+        });
+    }
+
+    async clear() {
+        await fs.promises.rm(this.dir, { recursive: true, force: true });
+    }
+}
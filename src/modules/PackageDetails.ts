@@ -0,0 +1,47 @@
+import * as utils from '@/utils';
+import { InspectedDistribution } from './EnvironmentReport';
+
+export interface DependencyInfo {
+    name: string;
+    /** Version specifiers the package asks for, empty for any version */
+    specifier: string;
+    marker?: string;
+    /** Extras of the package that pull this dependency in, empty when it is always required */
+    extras: string[];
+    /** Whether the marker holds for the interpreter, with the extra it depends on enabled */
+    applies: boolean;
+    installedVersion?: string;
+    /** Installed version satisfies the specifier, undefined when it is not installed */
+    satisfied?: boolean;
+}
+
+/**
+ * Resolve a distribution's Requires-Dist entries against the installed distributions
+ */
+export function describeDependencies(requires: string[], installed: InspectedDistribution[], markers: Record<string, string>): DependencyInfo[] {
+    const versions = new Map(installed.map((dist) => [utils.normalizePackageName(dist.name), dist.version]));
+    const dependencies: DependencyInfo[] = [];
+    for (const entry of requires) {
+        const requirement = utils.parseRequirement(entry);
+        if (!requirement) {
+            continue;
+        }
+        const extras = requirement.marker ? utils.markerExtras(requirement.marker) : [];
+        const applies = !requirement.marker || utils.evaluateMarker(requirement.marker, { ...markers, extra: extras[0] ?? '' });
+        const installedVersion = versions.get(utils.normalizePackageName(requirement.name));
+        dependencies.push({
+            name: requirement.name,
+            specifier: requirement.specifier,
+            marker: requirement.marker,
+            extras,
+            applies,
+            installedVersion,
+            satisfied: installedVersion === undefined
+                ? undefined
+                : !requirement.specifier || utils.satisfies(installedVersion, requirement.specifier, { prereleases: true }),
+        });
+    }
+    // Required first, then optional extras, then what the platform skips
+    const rank = (dep: DependencyInfo) => (dep.applies ? 0 : 2) + (dep.extras.length ? 1 : 0);
+    return dependencies.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+}
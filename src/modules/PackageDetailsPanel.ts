@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext } from '@/interface/common';
+import { IPackageManager, PackageRelease } from './PackageManager';
+import { EnvironmentReport, InspectedDistribution } from './EnvironmentReport';
+import { DependencyInfo, describeDependencies } from './PackageDetails';
+
+export interface IPackageDetailsPanel {
+    show(packageName: string): Promise<void>;
+}
+
+export const IPackageDetailsPanel = createDecorator<IPackageDetailsPanel>('packageDetailsPanel');
+
+const SHOW_COMMAND = 'pydep-pilot.showPackageDetails';
+
+function escapeHtml(text: string) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function isWebUrl(url: string) {
+    return /^https?:\/\//i.test(url);
+}
+
+/** Link that opens another package's details in the same panel */
+function detailsLink(name: string) {
+    const args = encodeURIComponent(JSON.stringify([name]));
+    return `<a href="command:${SHOW_COMMAND}?${args}">${escapeHtml(name)}</a>`;
+}
+
+/**
+ * Editor panel with everything known about one package: metadata and dependencies from the
+ * interpreter, release history from the index. A single panel is reused for every package.
+ */
+export class PackageDetailsPanel implements IPackageDetailsPanel {
+    private panel?: vscode.WebviewPanel;
+    private loading?: vscode.CancellationTokenSource;
+
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) { }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IPackageDetailsPanel>(PackageDetailsPanel);
+        if (service) {
+            service.set(IPackageDetailsPanel, instance);
+        }
+        return instance;
+    }
+
+    private getPanel() {
+        if (this.panel) {
+            this.panel.reveal(undefined, true);
+            return this.panel;
+        }
+        this.panel = vscode.window.createWebviewPanel('pydep-pilot-details', 'Package Details', {
+            viewColumn: vscode.ViewColumn.Active,
+            preserveFocus: true,
+        }, {
+            enableCommandUris: [SHOW_COMMAND],
+            localResourceRoots: [vscode.Uri.joinPath(this.context.extensionUri, 'media')],
+        });
+        this.panel.onDidDispose(() => {
+            this.loading?.cancel();
+            this.panel = undefined;
+        }, undefined, this.context.subscriptions);
+        return this.panel;
+    }
+
+    async show(packageName: string) {
+        this.loading?.cancel();
+        const loading = this.loading = new vscode.CancellationTokenSource();
+        const panel = this.getPanel();
+        panel.title = packageName;
+        panel.webview.html = this.render(panel.webview, `<p class="muted">Loading ${escapeHtml(packageName)}...</p>`);
+
+        // Both sides fail soft: a package missing locally still has a history, an offline index still has metadata
+        const [report, releases] = await Promise.all([
+            this.pip.getEnvironmentReport(loading.token).catch(() => undefined),
+            this.pip.getPackageReleases(packageName, loading.token).catch(() => [] as PackageRelease[]),
+        ]);
+        const name = utils.normalizePackageName(packageName);
+        const dist = report?.packages.find((pkg) => utils.normalizePackageName(pkg.name) === name);
+        const summary = dist?.summary
+            ? undefined
+            : await this.pip.getPackageSummary(packageName, loading.token).catch(() => undefined);
+        if (loading.token.isCancellationRequested || this.panel !== panel) {
+            return;
+        }
+
+        panel.title = dist?.name || packageName;
+        panel.webview.html = this.render(panel.webview, [
+            this.renderHeader(dist?.name || packageName, dist, summary?.summary),
+            this.renderMetadata(dist),
+            this.renderDependencies(dist, report),
+            this.renderReleases(releases, dist?.version),
+        ].join('\n'));
+    }
+
+    private renderHeader(name: string, dist?: InspectedDistribution, remoteSummary?: string) {
+        const summary = dist?.summary || remoteSummary;
+        const version = dist ? `<span class="version">${escapeHtml(dist.version)}</span>` : '<span class="muted">not installed</span>';
+        return `<h1>${escapeHtml(name)} ${version}</h1>
+${summary ? `<p class="summary">${escapeHtml(summary)}</p>` : ''}`;
+    }
+
+    private renderMetadata(dist?: InspectedDistribution) {
+        if (!dist) {
+            return '';
+        }
+        const rows: [string, string][] = [];
+        if (dist.license) {
+            rows.push(['License', escapeHtml(dist.license)]);
+        }
+        if (dist.author) {
+            rows.push(['Author', escapeHtml(dist.author)]);
+        }
+        if (dist.location) {
+            rows.push(['Location', `<code>${escapeHtml(dist.location)}</code>`]);
+        }
+        if (dist.installer) {
+            rows.push(['Installer', escapeHtml(dist.installer)]);
+        }
+        if (dist.requested !== undefined) {
+            rows.push(['Installed', dist.requested ? 'Explicitly' : 'As a dependency']);
+        }
+        if (dist.editable || dist.directUrl) {
+            const source = dist.directUrl ? `<code>${escapeHtml(dist.directUrl)}</code>` : '';
+            rows.push(['Source', `${dist.editable ? 'Editable ' : ''}${source}`]);
+        }
+        const links = Object.entries(dist.projectUrls || {})
+            .filter(([, url]) => isWebUrl(url))
+            .map(([label, url]) => `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`);
+        if (links.length) {
+            rows.push(['Links', links.join(' · ')]);
+        }
+        return `<table class="metadata">
+${rows.map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`).join('\n')}
+</table>`;
+    }
+
+    private renderDependency(dep: DependencyInfo) {
+        let status: string;
+        if (dep.installedVersion === undefined) {
+            status = `<span class="${dep.applies && !dep.extras.length ? 'error' : 'muted'}">not installed</span>`;
+        } else {
+            status = `<span class="${dep.satisfied ? '' : 'error'}">${escapeHtml(dep.installedVersion)}</span>`;
+        }
+        const notes: string[] = [];
+        if (dep.extras.length) {
+            notes.push(`extra: ${escapeHtml(dep.extras.join(', '))}`);
+        }
+        if (!dep.applies) {
+            notes.push('not for this environment');
+        }
+        return `<tr class="${dep.applies ? '' : 'muted'}">
+<td>${detailsLink(dep.name)}</td>
+<td><code>${escapeHtml(dep.specifier || '*')}</code></td>
+<td>${status}</td>
+<td class="muted" title="${escapeHtml(dep.marker || '')}">${notes.join(', ')}</td>
+</tr>`;
+    }
+
+    private renderDependencies(dist?: InspectedDistribution, report?: EnvironmentReport) {
+        if (!dist || !report) {
+            return '';
+        }
+        const dependencies = describeDependencies(dist.requires || [], report.packages, report.markers);
+        const body = dependencies.length
+            ? `<table class="dependencies">
+<tr><th>Package</th><th>Requires</th><th>Installed</th><th></th></tr>
+${dependencies.map((dep) => this.renderDependency(dep)).join('\n')}
+</table>`
+            : '<p class="muted">No dependencies</p>';
+        return `<h2>Dependencies</h2>\n${body}`;
+    }
+
+    private renderReleases(releases: PackageRelease[], installedVersion?: string) {
+        if (!releases.length) {
+            return '<h2>Release History</h2>\n<p class="muted">Release history unavailable from the index</p>';
+        }
+        const items = releases.map((release) => {
+            const date = release.uploadTime ? release.uploadTime.slice(0, 10) : '';
+            const installed = installedVersion !== undefined && utils.isVersionEqual(release.version, installedVersion);
+            const badges = [
+                installed ? '<span class="badge installed">installed</span>' : '',
+                release.prerelease ? '<span class="badge">pre-release</span>' : '',
+                release.yanked ? `<span class="badge yanked" title="${escapeHtml(release.yankedReason || '')}">yanked</span>` : '',
+                release.pythonCompatible ? '' : `<span class="badge" title="Requires-Python ${escapeHtml(release.requiresPython || '')}">incompatible</span>`,
+            ].join('');
+            return `<li class="${installed ? 'current' : ''}"><span class="date">${date}</span><span class="release">${escapeHtml(release.version)}</span>${badges}</li>`;
+        });
+        return `<h2>Release History</h2>\n<ol class="timeline">\n${items.join('\n')}\n</ol>`;
+    }
+
+    private render(webview: vscode.Webview, body: string) {
+        const styleUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(this.context.extensionUri, 'media', 'webview', 'details.css')
+        );
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource};">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>Package Details</title>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,315 @@
+import axios, { CancelToken } from 'axios';
+import * as utils from '@/utils';
+
+/**
+ * Client for the simple repository API, JSON (PEP 691) with HTML (PEP 503) fallback,
+ * so version discovery works against PyPI and private mirrors alike.
+ */
+
+export const PYPI_SIMPLE_URL = 'https://pypi.org/simple';
+
+const SIMPLE_JSON_TYPE = 'application/vnd.pypi.simple.v1+json';
+const ACCEPT_HEADER = `${SIMPLE_JSON_TYPE}, text/html;q=0.1`;
+
+const ARCHIVE_EXTENSIONS = ['.tar.gz', '.tar.bz2', '.tar.xz', '.tgz', '.zip', '.whl', '.egg'];
+
+export interface IndexFile {
+    filename: string;
+    url: string;
+    requiresPython?: string;
+    yanked: boolean;
+    yankedReason?: string;
+    /** ISO 8601 upload time, PEP 700 JSON pages only */
+    uploadTime?: string;
+    /** The index serves the file's core metadata next to it at `<url>.metadata` (PEP 658) */
+    coreMetadata?: boolean;
+}
+
+export interface ProjectPage {
+    name: string;
+    files: IndexFile[];
+}
+
+export interface FetchProjectOptions {
+    timeout?: number;
+    cancelToken?: CancelToken;
+    /** HTTP basic auth for private indexes */
+    auth?: { username: string; password: string };
+}
+
+/**
+ * URL of a project's page on a simple index, `https://pypi.org/simple/foo-bar/`
+ */
+export function projectUrl(indexUrl: string, packageName: string) {
+    return `${indexUrl.replace(/\/+$/, '')}/${utils.normalizePackageName(packageName)}/`;
+}
+
+function resolveUrl(href: string, pageUrl: string) {
+    try {
+        return pageUrl ? new URL(href, pageUrl).toString() : href;
+    } catch {
+        return href;
+    }
+}
+
+function unescapeHtml(text: string) {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#0*39;|&#x0*27;|&apos;/gi, '\'')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse a PEP 691 JSON project page
+ */
+export function parseSimpleJson(data: any, packageName: string, pageUrl = ''): ProjectPage {
+    const files: any[] = Array.isArray(data?.files) ? data.files : [];
+    return {
+        name: data?.name || packageName,
+        files: files.filter((file) => file?.filename).map((file) => ({
+            filename: file.filename,
+            url: resolveUrl(file.url || '', pageUrl),
+            requiresPython: file['requires-python'] || undefined,
+            // `yanked` is either a boolean or the reason
+            yanked: !!file.yanked,
+            yankedReason: typeof file.yanked === 'string' && file.yanked ? file.yanked : undefined,
+            uploadTime: typeof file['upload-time'] === 'string' ? file['upload-time'] : undefined,
+            // PEP 714 renamed the key, older indexes still send the PEP 658 one
+            coreMetadata: !!(file['core-metadata'] ?? file['dist-info-metadata']),
+        })),
+    };
+}
+
+/**
+ * Parse a PEP 503 HTML project page, one anchor per file
+ */
+export function parseSimpleHtml(html: string, packageName: string, pageUrl = ''): ProjectPage {
+    const files: IndexFile[] = [];
+    const anchor = /<a\s([^>]*)>([^<]*)<\/a>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = anchor.exec(html))) {
+        const attributes: Record<string, string> = {};
+        const attribute = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+        let attr: RegExpExecArray | null;
+        while ((attr = attribute.exec(match[1]))) {
+            attributes[attr[1].toLowerCase()] = unescapeHtml(attr[2] ?? attr[3] ?? attr[4] ?? '');
+        }
+        const filename = unescapeHtml(match[2]).trim();
+        if (!filename || attributes.href === undefined) {
+            continue;
+        }
+        const yanked = 'data-yanked' in attributes;
+        const coreMetadata = attributes['data-core-metadata'] ?? attributes['data-dist-info-metadata'];
+        files.push({
+            filename,
+            url: resolveUrl(attributes.href, pageUrl),
+            requiresPython: attributes['data-requires-python'] || undefined,
+            yanked,
+            yankedReason: yanked ? attributes['data-yanked'] || undefined : undefined,
+            coreMetadata: coreMetadata !== undefined && coreMetadata !== 'false',
+        });
+    }
+    return { name: packageName, files };
+}
+
+/**
+ * Version encoded in a distribution filename, null when the file is not a recognizable archive
+ */
+export function versionFromFilename(filename: string, packageName: string): string | null {
+    const extension = ARCHIVE_EXTENSIONS.find((ext) => filename.toLowerCase().endsWith(ext));
+    if (!extension) {
+        return null;
+    }
+    const stem = filename.slice(0, -extension.length);
+    if (extension === '.whl' || extension === '.egg') {
+        // {name}-{version}(-{tags})..., the name has no dashes in these formats
+        return stem.split('-')[1] || null;
+    }
+    // sdists are {name}-{version} where the name may itself contain dashes
+    const name = utils.normalizePackageName(packageName);
+    for (let i = stem.indexOf('-'); i > 0; i = stem.indexOf('-', i + 1)) {
+        if (utils.normalizePackageName(stem.slice(0, i)) === name) {
+            return stem.slice(i + 1) || null;
+        }
+    }
+    const dash = stem.lastIndexOf('-');
+    return dash > 0 ? stem.slice(dash + 1) : null;
+}
+
+/**
+ * Group a project's files by normalized version, dropping files whose version does not parse
+ */
+export function groupFilesByVersion(page: ProjectPage): Record<string, IndexFile[]> {
+    const releases: Record<string, IndexFile[]> = {};
+    for (const file of page.files) {
+        const version = versionFromFilename(file.filename, page.name);
+        if (!version || !utils.isValidVersion(version)) {
+            continue;
+        }
+        const normalized = utils.normalizeVersion(version);
+        (releases[normalized] = releases[normalized] || []).push(file);
+    }
+    return releases;
+}
+
+export interface ConditionalFetchOptions extends FetchProjectOptions {
+    /** Validators from an earlier response, sent as If-None-Match / If-Modified-Since */
+    etag?: string;
+    lastModified?: string;
+}
+
+export interface ConditionalResponse<T> {
+    /** Missing when the index answered 304 Not Modified */
+    data?: T;
+    etag?: string;
+    lastModified?: string;
+}
+
+interface SimpleResponse {
+    body?: string;
+    json: boolean;
+    /** Redirects are followed, relative URLs resolve against where the page ended up */
+    pageUrl: string;
+    etag?: string;
+    lastModified?: string;
+}
+
+async function fetchSimpleConditional(url: string, options: ConditionalFetchOptions): Promise<SimpleResponse> {
+    const headers: Record<string, string> = { Accept: ACCEPT_HEADER };
+    if (options.etag) {
+        headers['If-None-Match'] = options.etag;
+    }
+    if (options.lastModified) {
+        headers['If-Modified-Since'] = options.lastModified;
+    }
+    const resp = await axios({
+        method: 'GET',
+        url,
+        timeout: options.timeout,
+        cancelToken: options.cancelToken,
+        auth: options.auth,
+        headers,
+        responseType: 'text',
+        // Parse by content type below rather than letting axios guess
+        transformResponse: (data) => data,
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+    return {
+        body: resp.status === 304 ? undefined : String(resp.data),
+        json: String(resp.headers['content-type'] || '').includes('json'),
+        pageUrl: resp.request?.res?.responseUrl || url,
+        etag: resp.headers['etag'] ? String(resp.headers['etag']) : options.etag,
+        lastModified: resp.headers['last-modified'] ? String(resp.headers['last-modified']) : options.lastModified,
+    };
+}
+
+/**
+ * Fetch a project page, revalidating an earlier copy when validators are given
+ */
+export async function fetchProjectPageConditional(indexUrl: string, packageName: string, options: ConditionalFetchOptions = {}): Promise<ConditionalResponse<ProjectPage>> {
+    const { body, json, pageUrl, etag, lastModified } = await fetchSimpleConditional(projectUrl(indexUrl, packageName), options);
+    if (body === undefined) {
+        return { etag, lastModified };
+    }
+    const data = json
+        ? parseSimpleJson(JSON.parse(body), packageName, pageUrl)
+        : parseSimpleHtml(body, packageName, pageUrl);
+    return { data, etag, lastModified };
+}
+
+/**
+ * Fetch a project page from a simple index, asking for JSON and accepting HTML
+ */
+export async function fetchProjectPage(indexUrl: string, packageName: string, options: FetchProjectOptions = {}): Promise<ProjectPage> {
+    const { data } = await fetchProjectPageConditional(indexUrl, packageName, options);
+    return data || { name: packageName, files: [] };
+}
+
+/**
+ * Project names listed on an index's root page, PEP 691 JSON or PEP 503 HTML
+ */
+export function parseProjectList(body: string, json: boolean): string[] {
+    if (json) {
+        const projects: any[] = JSON.parse(body)?.projects || [];
+        return projects.map((project) => project?.name).filter((name): name is string => typeof name === 'string' && !!name);
+    }
+    const names: string[] = [];
+    const anchor = /<a\s[^>]*>([^<]*)<\/a>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = anchor.exec(body))) {
+        const name = unescapeHtml(match[1]).trim();
+        if (name) {
+            names.push(name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Fetch every project name an index serves. On PyPI that is a large download, callers cache it.
+ */
+export async function fetchProjectListConditional(indexUrl: string, options: ConditionalFetchOptions = {}): Promise<ConditionalResponse<string[]>> {
+    const { body, json, etag, lastModified } = await fetchSimpleConditional(`${indexUrl.replace(/\/+$/, '')}/`, options);
+    return { data: body === undefined ? undefined : parseProjectList(body, json), etag, lastModified };
+}
+
+/**
+ * Summary and latest version from the PyPI-style JSON API (`/pypi/<name>/json`) next to a `/simple` index.
+ * The simple API has no summaries, indexes without the JSON API resolve undefined.
+ */
+export async function fetchProjectSummary(indexUrl: string, packageName: string, options: FetchProjectOptions = {}): Promise<{ summary?: string; version?: string } | undefined> {
+    const base = indexUrl.replace(/\/+$/, '');
+    if (!/\/simple$/.test(base)) {
+        return undefined;
+    }
+    try {
+        const resp = await axios({
+            method: 'GET',
+            url: `${base.replace(/\/simple$/, '')}/pypi/${utils.normalizePackageName(packageName)}/json`,
+            timeout: options.timeout,
+            cancelToken: options.cancelToken,
+            auth: options.auth,
+        });
+        const info = resp.data?.info;
+        return info ? { summary: info.summary || undefined, version: info.version || undefined } : undefined;
+    } catch (err) {
+        if (axios.isCancel(err)) {
+            throw err;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Core metadata (the METADATA file) of a distribution the index serves it for, without downloading the file
+ */
+export async function fetchCoreMetadata(file: IndexFile, options: FetchProjectOptions = {}): Promise<string> {
+    const resp = await axios({
+        method: 'GET',
+        url: `${file.url.split('#')[0]}.metadata`,
+        timeout: options.timeout,
+        cancelToken: options.cancelToken,
+        auth: options.auth,
+        responseType: 'text',
+        transformResponse: (data) => data,
+    });
+    return String(resp.data);
+}
+
+/**
+ * Download a distribution file, failing when it is larger than `maxSize` bytes
+ */
+export async function fetchDistribution(file: IndexFile, options: FetchProjectOptions & { maxSize?: number } = {}): Promise<Buffer> {
+    const resp = await axios({
+        method: 'GET',
+        url: file.url.split('#')[0],
+        timeout: options.timeout,
+        cancelToken: options.cancelToken,
+        auth: options.auth,
+        responseType: 'arraybuffer',
+        maxContentLength: options.maxSize ?? -1,
+    });
+    return Buffer.from(resp.data);
+}
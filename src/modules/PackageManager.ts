@@ -2,58 +2,146 @@ import { spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import axios from 'axios';
 import * as utils from '@/utils';
 import { createDecorator } from '@/common/ioc/common/instantiation';
 import { IExtensionContext, IOutputChannel } from '@/interface/common';
 import { InstantiationService, ServiceCollection } from '@/common/ioc';
-
-interface PackageInfo {
+import { BackendContext, BackendId, BackendSetting, InstallRequest, InterpreterInfo, PackageBackend, PipenvBackend, createBackend } from './backends';
+import { PackagePolicy } from './UpdatePolicy';
+import { IndexFile, fetchCoreMetadata, fetchDistribution, fetchProjectSummary, groupFilesByVersion } from './PackageIndex';
+import { DistributionFile } from './DistributionArchive';
+import { MetadataCache } from './MetadataCache';
+import { FetchScheduler } from './FetchScheduler';
+import { DistributionDetails, EnvironmentReport, parseInspectReport } from './EnvironmentReport';
+import { IIndexRegistry } from './IndexRegistry';
+import { DependencyGraph } from './DependencyGraph';
+import { DependencyConflict, findConflicts, parsePipCheck } from './DependencyCheck';
+import { PlannedChange, planChanges } from './InstallPlan';
+
+interface PackageInfo extends DistributionDetails {
     name: string;
     version?: string;
     latestVersion?: string;
+    /** latestVersion is newer than version by PEP 440 ordering */
+    hasUpdate?: boolean;
+    /** How big the step to latestVersion is */
+    updateType?: utils.UpdateType;
+    /** Conda channel the package came from, `pypi` when pip installed it */
+    channel?: string;
+    /** Pipfile section the package belongs to, `default` or `dev` */
+    group?: string;
+    /** Workspace update policy that applies to the package */
+    policy?: PackagePolicy;
+    /** latestVersion comes from cached metadata past its TTL */
+    stale?: boolean;
+    /** Why the latest version check failed */
+    checkError?: string;
+    /** Broken requirements the package takes part in, as `pip check` words them */
+    conflicts?: string[];
+}
+
+export interface PackageRelease {
+    version: string;
+    prerelease: boolean;
+    yanked: boolean;
+    yankedReason?: string;
+    /** Requires-Python metadata of the release, e.g. `>=3.9` */
+    requiresPython?: string;
+    /** False when requiresPython excludes the selected interpreter */
+    pythonCompatible: boolean;
+    /** Earliest upload time of the release's files, when the index reports one */
+    uploadTime?: string;
+}
+
+export interface LatestVersionInfo {
+    version: string;
+    /** Worked out from cached metadata past its TTL, offline or with the index unreachable */
+    stale: boolean;
 }
 
 export type PackageVersionInfo = Omit<PackageInfo, 'version'> & Required<Pick<PackageInfo, 'version'>>;
 
-const PYPI_DEFAULT = 'https://pypi.org/simple';
+const INTERPRETER_INFO_SCRIPT = 'import json, platform, sys; print(json.dumps({"executable": sys.executable, "prefix": sys.prefix, "version": platform.python_version()}))';
 
 export const necessaryPackage = [
     'pip', 'setuptools', 'wheel'
 ];
 
+export interface PackageSummary {
+    summary?: string;
+    latestVersion?: string;
+}
+
+/** The full project list is large and rarely changes in a way search would notice */
+const PROJECT_LIST_TTL = 24 * 60 * 60 * 1000;
+
+/** Distributions larger than this are not downloaded for their changelog */
+const MAX_DISTRIBUTION_SIZE = 20 * 1024 * 1024;
+
 export interface IPackageManager {
+    /** Fires after the manager installed, updated or removed packages, or switched interpreter */
+    readonly onDidChangePackages: vscode.Event<void>;
     getPackageList(): Promise<PackageVersionInfo[]>;
     getPackageListWithUpdate(): Promise<PackageVersionInfo[]>;
     addPackage(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken): Promise<any>;
     updatePackage(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken): Promise<any>;
+    updatePackages(packs: (string | PackageInfo)[], cancelToken?: vscode.CancellationToken): Promise<void>;
     removePackage(pack: string | PackageInfo): Promise<any>;
-    updatePythonPath(path: string): void;
+    removePackages(names: string[]): Promise<void>;
+    updateExecCommand(execCommand: string[]): void;
     addPackageFromFile(filePath: string, cancelToken?: vscode.CancellationToken): Promise<any>;
     getPackageVersionList(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken): Promise<string[]>;
+    getPackageReleases(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken): Promise<PackageRelease[]>;
+    getPythonVersion(): Promise<string | undefined>;
     getPackageUpdate(): Promise<PackageVersionInfo[]>;
     mergePackageListWithUpdate(packInfo: PackageVersionInfo[], updateInfo: PackageVersionInfo[]): PackageVersionInfo[];
-    checkPackageLatestVersion(packageName: string, cancelToken?: vscode.CancellationToken): Promise<string | null>;
+    checkPackageLatestVersion(packageName: string, cancelToken?: vscode.CancellationToken, specifier?: string): Promise<LatestVersionInfo | null>;
     freezePackages(): Promise<string>;
+    syncPipfileLock(filePath: string, cancelToken?: vscode.CancellationToken): Promise<any>;
+    getBackendId(): Promise<BackendId>;
+    clearMetadataCache(): Promise<void>;
+    getProjectNames(cancelToken?: vscode.CancellationToken): Promise<string[]>;
+    getPackageSummary(packageName: string, cancelToken?: vscode.CancellationToken): Promise<PackageSummary>;
+    getCoreMetadata(packageName: string, version: string, cancelToken?: vscode.CancellationToken): Promise<string | undefined>;
+    getDistribution(packageName: string, version: string, cancelToken?: vscode.CancellationToken): Promise<DistributionFile | undefined>;
+    getEnvironmentReport(cancelToken?: vscode.CancellationToken): Promise<EnvironmentReport>;
+    getDependencyGraph(cancelToken?: vscode.CancellationToken): Promise<DependencyGraph>;
+    checkDependencies(cancelToken?: vscode.CancellationToken): Promise<DependencyConflict[]>;
+    previewInstall(request: InstallRequest, cancelToken?: vscode.CancellationToken): Promise<PlannedChange[] | undefined>;
 }
 
 export const IPackageManager = createDecorator<IPackageManager>('packageManager');
 
 export class PackageManager implements IPackageManager {
-    private source: string = PYPI_DEFAULT;
+    private _backend: Promise<PackageBackend> | null = null;
+    private _interpreter: Promise<InterpreterInfo> | null = null;
+    private readonly metadataCache: MetadataCache;
+    private readonly fetchScheduler: FetchScheduler;
+    private readonly _onDidChangePackages = new vscode.EventEmitter<void>();
+    readonly onDidChangePackages = this._onDidChangePackages.event;
     constructor(
-        private _pythonPath: string,
+        private _execCommand: string[],
         @IOutputChannel private readonly output: IOutputChannel,
         @IExtensionContext private readonly context: IExtensionContext,
+        @IIndexRegistry private readonly indexes: IIndexRegistry,
     ) {
-        this.updatePythonSource();
+        this.fetchScheduler = new FetchScheduler({ maxConcurrency: this.getMaxConcurrentRequests() });
+        this.metadataCache = new MetadataCache(path.join(this.context.globalStorageUri.fsPath, 'metadata'), this.fetchScheduler);
+        const projectFileWatcher = vscode.workspace.createFileSystemWatcher('**/{pyproject.toml,uv.lock,Pipfile}');
+        const resetBackend = () => { this._backend = null; };
         this.context.subscriptions.push(
-            vscode.workspace.onDidChangeConfiguration(this.onConfigUpdate.bind(this))
+            this._onDidChangePackages,
+            vscode.workspace.onDidChangeConfiguration(this.onConfigUpdate.bind(this)),
+            vscode.workspace.onDidChangeWorkspaceFolders(resetBackend),
+            projectFileWatcher,
+            projectFileWatcher.onDidCreate(resetBackend),
+            projectFileWatcher.onDidChange(resetBackend),
+            projectFileWatcher.onDidDelete(resetBackend),
         );
     }
 
-    static Create(instantiation: InstantiationService, service: ServiceCollection | undefined, pythonPath: string) {
-        const instance = instantiation.createInstance<IPackageManager>(this, pythonPath);
+    static Create(instantiation: InstantiationService, service: ServiceCollection | undefined, execCommand: string[]) {
+        const instance = instantiation.createInstance<IPackageManager>(this, execCommand);
         if (service) {
             service.set(IPackageManager, instance);
         }
@@ -61,30 +149,85 @@ export class PackageManager implements IPackageManager {
     }
 
     onConfigUpdate(e: vscode.ConfigurationChangeEvent) {
-        if (e.affectsConfiguration('pydep-pilot.customPypiUrl')) {
-            this.updatePythonSource();
+        if (e.affectsConfiguration('pydep-pilot.maxConcurrentRequests')) {
+            this.fetchScheduler.setMaxConcurrency(this.getMaxConcurrentRequests());
+        }
+        if (e.affectsConfiguration('pydep-pilot.packageManager')) {
+            this._backend = null;
         }
     }
 
-    updatePythonSource(){
-        const config = vscode.workspace.getConfiguration('pydep-pilot');
-        const customUrl = config.get<string>('customPypiUrl', '');
-        this.source = customUrl || PYPI_DEFAULT;
+    updateExecCommand(execCommand: string[]) {
+        this._execCommand = execCommand;
+        this._interpreter = null;
+        this._backend = null;
+        this._onDidChangePackages.fire();
+    }
+
+    private getBackend() {
+        if (!this._backend) {
+            const config = vscode.workspace.getConfiguration('pydep-pilot');
+            const setting = config.get<BackendSetting>('packageManager', 'auto');
+            const backend = createBackend(setting, this.createBackendContext());
+            backend.then((b) => this.output.appendLine(`Using ${b.id} backend`), () => {
+                this._backend = null;
+            });
+            this._backend = backend;
+        }
+        return this._backend;
+    }
+
+    public async getBackendId(): Promise<BackendId> {
+        const backend = await this.getBackend();
+        return backend.id;
+    }
+
+    /**
+     * Ask the interpreter where it lives, `conda run python` style commands have no path of their own
+     */
+    private getInterpreterInfo(): Promise<InterpreterInfo> {
+        if (!this._interpreter) {
+            const [python, ...args] = this.execCommand;
+            const interpreter = this.execute(python, args.concat(['-c', INTERPRETER_INFO_SCRIPT])).then((out: string) => {
+                const lines = out.trim().split('\n');
+                return JSON.parse(lines[lines.length - 1]) as InterpreterInfo;
+            });
+            interpreter.catch(() => {
+                this._interpreter = null;
+            });
+            this._interpreter = interpreter;
+        }
+        return this._interpreter;
     }
 
-    updatePythonPath(path: string) {
-        this._pythonPath = path;
+    private createBackendContext(): BackendContext {
+        return {
+            execCommand: () => this.execCommand,
+            interpreter: () => this.getInterpreterInfo(),
+            indexes: (packageNames) => this.indexes.pipIndexes(packageNames),
+            execute: (command, args, options = {}) => {
+                return this.execute(command, args, options.cancelToken, options.cwd, true, options.env).catch((err) => {
+                    if (options.showErrorMessage !== false) {
+                        vscode.window.showErrorMessage(err.message);
+                    }
+                    return Promise.reject(err);
+                });
+            },
+            confirm: async (message, detail, action) => {
+                return await vscode.window.showWarningMessage(message, { modal: true, detail }, action) === action;
+            },
+        };
     }
 
-    private get pythonPath() {
-        if (!this._pythonPath) {
+    private get execCommand() {
+        if (!this._execCommand.length) {
             throw new Error('No Python interpreter configured. Please select a Python interpreter using the Python extension.');
         }
-        return this._pythonPath;
+        return this._execCommand;
     }
 
     private validatePythonPath(): void {
-        const pythonPath = this.pythonPath;
+        const pythonPath = this.execCommand[0];
         if (!pythonPath) {
             throw new Error('No Python interpreter configured. Please select a Python interpreter.');
         }
@@ -95,16 +238,16 @@ export class PackageManager implements IPackageManager {
         }
     }
 
-    private execute(command: string, args: string[], cancelToken?: vscode.CancellationToken): Promise<any> {
+    private execute(command: string, args: string[], cancelToken?: vscode.CancellationToken, cwd?: string, logOutput = true, env?: Record<string, string>): Promise<any> {
         return new Promise((resolve, reject) => {
             let errMsg = '';
             let out = '';
 
-            this.output.appendLine(`exec ${command} ${args.join(' ')}`);
+            this.output.appendLine(utils.redactUrlCredentials(`exec ${command} ${args.join(' ')}`));
 
             let p: ReturnType<typeof spawn>;
             try {
-                p = spawn(command, args);
+                p = spawn(command, args, { cwd, env: env && { ...process.env, ...env } });
             } catch (err: any) {
                 reject(new Error(`Failed to start process: ${err.message}`));
                 return;
@@ -113,7 +256,11 @@ export class PackageManager implements IPackageManager {
             // Handle spawn error (e.g., ENOENT when command doesn't exist)
             p.on('error', (err: Error) => {
                 this.output.appendLine(`Process error: ${err.message}`);
-                reject(new Error(`Failed to execute python: ${err.message}. Make sure Python is installed and selected.`));
+                if (command === this._execCommand[0]) {
+                    reject(new Error(`Failed to execute python: ${err.message}. Make sure Python is installed and selected.`));
+                } else {
+                    reject(new Error(`Failed to execute ${command}: ${err.message}. Make sure it is installed and on PATH.`));
+                }
             });
 
             if (cancelToken) {
@@ -124,7 +271,9 @@ export class PackageManager implements IPackageManager {
             }
 
             p.stdout?.on('data', (data: string) => {
-                this.output.appendLine(data);
+                if (logOutput) {
+                    this.output.appendLine(data);
+                }
                 out = out + data;
             });
 
@@ -141,38 +290,14 @@ export class PackageManager implements IPackageManager {
                     resolve(out);
                 } else {
                     const err = new Error(errMsg || 'Command failed');
-                    (err as Error & { code: number }).code = code;
+                    (err as Error & { code: number; stdout: string }).code = code;
+                    (err as Error & { code: number; stdout: string }).stdout = out;
                     reject(err);
                 }
             });
         });
     }
 
-    private pip(args: string[], cancelToken?: vscode.CancellationToken, showErrorMessage = true) {
-        const python = this.pythonPath;
-
-        return this.execute(python, ['-m', 'pip']
-            .concat(args)
-            .concat([]),
-            cancelToken
-        ).catch((err) => {
-            if (showErrorMessage) {
-                vscode.window.showErrorMessage(err.message);
-            }
-            return Promise.reject(err);
-        });
-    }
-
-    private pipWithSource(iargs: string[], cancelToken?: vscode.CancellationToken, showErrorMessage?: boolean) {
-        const args = ([] as string[]).concat(iargs);
-
-        if (this.source) {
-            args.push('-i', this.source);
-        }
-
-        return this.pip(args, cancelToken, showErrorMessage);
-    }
-
     private createPackageInfo(pack: string | PackageInfo): PackageInfo | null {
         let out: PackageInfo;
         if (typeof pack === 'string') {
@@ -192,47 +317,292 @@ export class PackageManager implements IPackageManager {
 
     public _test_createPackageInfo = this.createPackageInfo;
 
-    private tryParsePipListJson(packages: string) {
+    public async getPackageList(): Promise<PackageVersionInfo[]> {
+        const backend = await this.getBackend();
+        return backend.list();
+    }
+
+    public async freezePackages(): Promise<string> {
+        const backend = await this.getBackend();
+        return backend.freeze();
+    }
+
+    /**
+     * Metadata of every installed distribution in one call: `pip inspect` (pip 22.2+), or the bundled
+     * introspection script when pip is older or missing, as in environments created by uv
+     */
+    public async getEnvironmentReport(cancelToken?: vscode.CancellationToken): Promise<EnvironmentReport> {
+        const [python, ...args] = this.execCommand;
+        // Reports carry every package's long description, keep them out of the output channel
+        let out: string;
         try {
-            return JSON.parse(packages.replace(/\n/g, ""));
-        } catch(e) {
-            throw new Error(`Get package failed, please run "pip list --format json" or "pip3 list --format json" check pip support json format: ${e}`);
+            out = await this.execute(python, args.concat(['-m', 'pip', 'inspect']), cancelToken, undefined, false);
+        } catch (err) {
+            if (cancelToken?.isCancellationRequested) {
+                throw err;
+            }
+            const script = path.join(this.context.extensionPath, 'python', 'inspect_environment.py');
+            out = await this.execute(python, args.concat([script]), cancelToken, undefined, false);
         }
+        return parseInspectReport(JSON.parse(out));
     }
 
-    public async getPackageList(): Promise<PackageVersionInfo[]> {
-        const packages = await this.pip(['list', '--format', 'json']);
-        return this.tryParsePipListJson(packages);
+    public async getDependencyGraph(cancelToken?: vscode.CancellationToken): Promise<DependencyGraph> {
+        return new DependencyGraph(await this.getEnvironmentReport(cancelToken));
     }
 
-    public async freezePackages(): Promise<string> {
-        const output = await this.pip(['freeze']);
-        return output.trim();
+    /**
+     * Installed distributions whose requirements are not met, from `pip check`, or worked out from
+     * the environment report when the interpreter has no pip
+     */
+    public async checkDependencies(cancelToken?: vscode.CancellationToken): Promise<DependencyConflict[]> {
+        const [python, ...args] = this.execCommand;
+        try {
+            return parsePipCheck(await this.execute(python, args.concat(['-m', 'pip', 'check']), cancelToken));
+        } catch (err: any) {
+            // pip check exits with 1 when it found problems, they are on stdout
+            const conflicts = parsePipCheck(err?.stdout || '');
+            if (conflicts.length) {
+                return conflicts;
+            }
+            if (cancelToken?.isCancellationRequested) {
+                throw err;
+            }
+            return findConflicts(await this.getEnvironmentReport(cancelToken));
+        }
     }
 
     public async getPackageUpdate(): Promise<PackageVersionInfo[]> {
-        const updates = await this.pipWithSource(['list', '--outdated', '--format', 'json']);
-        return this.tryParsePipListJson(updates);
+        const backend = await this.getBackend();
+        return backend.listOutdated();
+    }
+
+    private getMaxConcurrentRequests() {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        return config.get<number>('maxConcurrentRequests', 8);
+    }
+
+    private getCachePolicy() {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        return {
+            ttl: Math.max(0, config.get<number>('metadataCacheTtl', 60)) * 60 * 1000,
+            offline: config.get<boolean>('offlineMode', false),
+        };
     }
 
     /**
-     * Check a single package's latest version from PyPI
+     * Files of every release of a package across the indexes that serve it, keyed by version.
+     * An index without the package is skipped, failing only when none of them answers.
      */
-    public async checkPackageLatestVersion(packageName: string, cancelToken?: vscode.CancellationToken): Promise<string | null> {
-        try {
-            const axiosCancelToken = utils.createAxiosCancelToken(cancelToken);
-            const resp = await axios({
-                method: 'GET',
+    private async fetchReleaseFiles(packageName: string, timeout: number, cancelToken?: vscode.CancellationToken) {
+        const axiosCancelToken = utils.createAxiosCancelToken(cancelToken);
+        const cachePolicy = this.getCachePolicy();
+        const results = await Promise.allSettled(this.indexes.indexesFor(packageName).map(async (index) => {
+            return this.metadataCache.getProjectPage(index.url, packageName, {
+                timeout,
                 cancelToken: axiosCancelToken.token,
-                url: `https://pypi.org/pypi/${packageName}/json`,
-                timeout: 5000,
-            });
-            return resp.data?.info?.version || null;
+                auth: await this.indexes.getCredentials(index.url),
+            }, cachePolicy);
+        }));
+
+        const releases: Record<string, IndexFile[]> = {};
+        let stale = false;
+        for (const result of results) {
+            if (result.status === 'fulfilled') {
+                stale = stale || result.value.stale;
+                for (const [version, files] of Object.entries(groupFilesByVersion(result.value.data))) {
+                    releases[version] = (releases[version] || []).concat(files);
+                }
+            }
+        }
+        if (results.length && results.every((result) => result.status === 'rejected')) {
+            throw (results[0] as PromiseRejectedResult).reason;
+        }
+        return { releases, stale };
+    }
+
+    public async clearMetadataCache() {
+        await this.metadataCache.clear();
+    }
+
+    /**
+     * Every project name the configured indexes list, for searching without a round trip per keystroke
+     */
+    public async getProjectNames(cancelToken?: vscode.CancellationToken): Promise<string[]> {
+        const axiosCancelToken = utils.createAxiosCancelToken(cancelToken);
+        const cachePolicy = this.getCachePolicy();
+        const results = await Promise.allSettled(this.indexes.getIndexes().map(async (index) => {
+            return this.metadataCache.getProjectList(index.url, {
+                timeout: 60000,
+                cancelToken: axiosCancelToken.token,
+                auth: await this.indexes.getCredentials(index.url),
+            }, { ...cachePolicy, ttl: Math.max(cachePolicy.ttl, PROJECT_LIST_TTL) });
+        }));
+        if (results.length && results.every((result) => result.status === 'rejected')) {
+            throw (results[0] as PromiseRejectedResult).reason;
+        }
+
+        const names = new Map<string, string>();
+        for (const result of results) {
+            if (result.status === 'fulfilled') {
+                for (const name of result.value.data) {
+                    const key = utils.normalizePackageName(name);
+                    if (!names.has(key)) {
+                        names.set(key, name);
+                    }
+                }
+            }
+        }
+        return [...names.values()];
+    }
+
+    /**
+     * Summary from the index's JSON API where it has one, latest version from its simple pages
+     */
+    public async getPackageSummary(packageName: string, cancelToken?: vscode.CancellationToken): Promise<PackageSummary> {
+        const axiosCancelToken = utils.createAxiosCancelToken(cancelToken);
+        const [index] = this.indexes.indexesFor(packageName);
+        const [info, latest] = await Promise.all([
+            index
+                ? fetchProjectSummary(index.url, packageName, {
+                    timeout: 5000,
+                    cancelToken: axiosCancelToken.token,
+                    auth: await this.indexes.getCredentials(index.url),
+                })
+                : undefined,
+            this.checkPackageLatestVersion(packageName, cancelToken).catch(() => null),
+        ]);
+        return {
+            summary: info?.summary,
+            latestVersion: latest?.version || info?.version,
+        };
+    }
+
+    /**
+     * Core metadata of a release, read from the PEP 658 file next to one of its distributions.
+     * Undefined when the index does not serve metadata files for it.
+     */
+    public async getCoreMetadata(packageName: string, version: string, cancelToken?: vscode.CancellationToken): Promise<string | undefined> {
+        const { releases } = await this.fetchReleaseFiles(packageName, 10000, cancelToken);
+        const files = (releases[utils.normalizeVersion(version)] || []).filter((file) => file.coreMetadata);
+        // Wheels carry the metadata as built, an sdist's PKG-INFO may be dynamic
+        const file = files.find((candidate) => candidate.filename.endsWith('.whl')) || files[0];
+        if (!file) {
+            return undefined;
+        }
+        return fetchCoreMetadata(file, {
+            timeout: 10000,
+            cancelToken: utils.createAxiosCancelToken(cancelToken).token,
+            auth: await this.fileCredentials(packageName, file),
+        });
+    }
+
+    /**
+     * Files of a private index usually sit behind the same credentials as its pages
+     */
+    private async fileCredentials(packageName: string, file: IndexFile) {
+        const origin = new URL(file.url).origin;
+        const index = this.indexes.indexesFor(packageName).find((candidate) => {
+            try {
+                return new URL(candidate.url).origin === origin;
+            } catch {
+                return false;
+            }
+        });
+        return index ? await this.indexes.getCredentials(index.url) : undefined;
+    }
+
+    /**
+     * Download a release's distribution, the sdist where there is one since it ships the project's
+     * files as they are in the repository, otherwise a wheel. Undefined when the release has neither.
+     */
+    public async getDistribution(packageName: string, version: string, cancelToken?: vscode.CancellationToken): Promise<DistributionFile | undefined> {
+        const { releases } = await this.fetchReleaseFiles(packageName, 10000, cancelToken);
+        const files = releases[utils.normalizeVersion(version)] || [];
+        const file = files.find((candidate) => /\.(tar\.gz|tgz|zip)$/i.test(candidate.filename))
+            || files.find((candidate) => candidate.filename.endsWith('.whl'));
+        if (!file) {
+            return undefined;
+        }
+        const data = await fetchDistribution(file, {
+            timeout: 30000,
+            cancelToken: utils.createAxiosCancelToken(cancelToken).token,
+            auth: await this.fileCredentials(packageName, file),
+            maxSize: MAX_DISTRIBUTION_SIZE,
+        });
+        return { filename: file.filename, data };
+    }
+
+    /**
+     * Turn release files into a list of releases, newest first
+     */
+    private parseReleases(releases: Record<string, IndexFile[]>, pythonVersion?: string): PackageRelease[] {
+        // Versions only appear through their files, so none of them is empty
+        return utils.sortVersions(Object.keys(releases)).map((version) => {
+            const files = releases[version];
+            // A release is yanked when every one of its files is
+            const yanked = files.every((file) => file.yanked);
+            const requiresPython = files.find((file) => file.requiresPython)?.requiresPython;
+            return {
+                version,
+                prerelease: utils.isPrerelease(version),
+                yanked,
+                yankedReason: yanked ? files.find((file) => file.yankedReason)?.yankedReason : undefined,
+                requiresPython,
+                pythonCompatible: this.isPythonCompatible(requiresPython, pythonVersion),
+                // ISO 8601 timestamps in UTC sort as strings
+                uploadTime: files.map((file) => file.uploadTime).filter(Boolean).sort()[0],
+            };
+        });
+    }
+
+    /**
+     * Evaluate Requires-Python the way pip does: metadata that does not parse is ignored
+     */
+    private isPythonCompatible(requiresPython?: string, pythonVersion?: string) {
+        if (!requiresPython || !pythonVersion || !utils.parseSpecifierSet(requiresPython)) {
+            return true;
+        }
+        return utils.satisfies(pythonVersion, requiresPython, { prereleases: true });
+    }
+
+    /**
+     * Python version of the selected interpreter, undefined when it cannot be asked
+     */
+    public async getPythonVersion(): Promise<string | undefined> {
+        try {
+            const interpreter = await this.getInterpreterInfo();
+            return interpreter.version;
         } catch {
-            return null;
+            return undefined;
         }
     }
 
+    /**
+     * Whether the workspace opted this package into pre-release updates
+     */
+    private allowsPrereleases(packageName: string) {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        const allowed = config.get<string[]>('allowPrereleases', []);
+        const name = utils.normalizePackageName(packageName);
+        return allowed.some((item) => item === '*' || utils.normalizePackageName(item) === name);
+    }
+
+    /**
+     * Check a single package's latest version on the configured index, optionally only among versions matching `specifier`.
+     * Resolves null when no release qualifies and rejects when the index could not be read.
+     */
+    public async checkPackageLatestVersion(packageName: string, cancelToken?: vscode.CancellationToken, specifier?: string): Promise<LatestVersionInfo | null> {
+        const { releases: files, stale } = await this.fetchReleaseFiles(packageName, 5000, cancelToken);
+        const releases = this.parseReleases(files, await this.getPythonVersion());
+        // Never offer a yanked release or one the interpreter cannot install
+        const candidates = releases.filter((release) => !release.yanked && release.pythonCompatible
+            && (!specifier || utils.satisfies(release.version, specifier, { prereleases: true })));
+        const stable = candidates.filter((release) => !release.prerelease);
+        const latest = this.allowsPrereleases(packageName) || !stable.length ? candidates[0] : stable[0];
+        return latest ? { version: latest.version, stale } : null;
+    }
+
     public mergePackageListWithUpdate(packInfo: PackageVersionInfo[], updateInfo: PackageVersionInfo[]): PackageVersionInfo[] {
         const latestVersionMap: Record<string, string>= {};
         if(updateInfo && updateInfo.length > 0) {
@@ -245,6 +615,8 @@ export class PackageManager implements IPackageManager {
                     return {
                         ...info,
                         latestVersion,
+                        hasUpdate: utils.isNewerVersion(latestVersion, info.version),
+                        updateType: utils.getUpdateType(info.version, latestVersion) || undefined,
                     };
                 }
                 return info;
@@ -264,20 +636,15 @@ export class PackageManager implements IPackageManager {
         return packInfo;
     }
 
-    private async installPackage(iargs: string[], cancelToken?: vscode.CancellationToken) {
-        const args = ['install', '-U'].concat(iargs);
-
-        await this.pipWithSource(args, cancelToken);
-    }
-
     public async addPackage(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken) {
         const info = this.createPackageInfo(pack);
         if (!info) {
             throw new Error('Invalid Name');
         }
 
-        const name = info.toString();
-        await this.installPackage([name], cancelToken);
+        const backend = await this.getBackend();
+        await backend.add([info.toString()], cancelToken);
+        this._onDidChangePackages.fire();
     }
     public async updatePackage(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken) {
         const info = this.createPackageInfo(pack);
@@ -285,15 +652,45 @@ export class PackageManager implements IPackageManager {
             throw new Error('Invalid Name');
         }
 
-        const name = info.toString();
-        await this.installPackage(['--upgrade',name], cancelToken);
+        const backend = await this.getBackend();
+        await backend.update([info.toString()], cancelToken);
+        this._onDidChangePackages.fire();
+    }
+    /**
+     * Update several packages in one backend call, so the resolver weighs all of them together
+     */
+    public async updatePackages(packs: (string | PackageInfo)[], cancelToken?: vscode.CancellationToken) {
+        const infos = packs.map((pack) => this.createPackageInfo(pack));
+        if (!infos.length || infos.some((info) => !info)) {
+            throw new Error('Invalid Name');
+        }
+
+        const backend = await this.getBackend();
+        await backend.update(infos.map((info) => info!.toString()), cancelToken);
+        this._onDidChangePackages.fire();
     }
     public async addPackageFromFile(filePath: string, cancelToken?: vscode.CancellationToken) {
         if (!filePath) {
             throw new Error('Invalid Path');
         }
 
-        await this.installPackage(['-r', filePath], cancelToken);
+        const backend = await this.getBackend();
+        await backend.installRequirements(filePath, cancelToken);
+        this._onDidChangePackages.fire();
+    }
+
+    /**
+     * Install exactly what Pipfile.lock records, dev packages included
+     */
+    public async syncPipfileLock(filePath: string, cancelToken?: vscode.CancellationToken) {
+        if (!filePath) {
+            throw new Error('Invalid Path');
+        }
+
+        const backend = await this.getBackend();
+        const pipenv = new PipenvBackend(this.createBackendContext(), backend, path.dirname(filePath));
+        await pipenv.sync(cancelToken);
+        this._onDidChangePackages.fire();
     }
 
     public async removePackage(pack: string | PackageInfo) {
@@ -307,51 +704,53 @@ export class PackageManager implements IPackageManager {
             return;
         }
 
-        await this.pip(['uninstall', name, '-y']);
+        const backend = await this.getBackend();
+        await backend.remove([name]);
+        this._onDidChangePackages.fire();
+    }
+
+    /**
+     * Uninstall several distributions in one backend call, e.g. a package and its unused dependencies
+     */
+    public async removePackages(names: string[]) {
+        const removable = names.filter((name) => !necessaryPackage.includes(utils.normalizePackageName(name)));
+        if (!removable.length) {
+            return;
+        }
+        const backend = await this.getBackend();
+        await backend.remove(removable);
+        this._onDidChangePackages.fire();
+    }
+
+    /**
+     * What an install would change in the environment, undefined when the backend cannot tell beforehand
+     */
+    public async previewInstall(request: InstallRequest, cancelToken?: vscode.CancellationToken): Promise<PlannedChange[] | undefined> {
+        const backend = await this.getBackend();
+        if (!backend.previewInstall) {
+            return undefined;
+        }
+        const [reported, installed] = await Promise.all([backend.previewInstall(request, cancelToken), backend.list()]);
+        return reported && planChanges(reported, installed);
     }
 
     public async getPackageVersionList(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken) {
+        const releases = await this.getPackageReleases(pack, cancelToken);
+        return releases.map((release) => release.version);
+    }
+
+    public async getPackageReleases(pack: string | PackageInfo, cancelToken?: vscode.CancellationToken): Promise<PackageRelease[]> {
         const info = this.createPackageInfo(pack);
 
         if (!info) {
             throw new Error('Invalid Name');
         }
-        const name = info.name;
 
         try {
-            const axiosCancelToken = utils.createAxiosCancelToken(cancelToken);
-            const resp = await axios({
-                method: 'GET',
-                cancelToken: axiosCancelToken.token,
-                url: `https://pypi.org/pypi/${name}/json`,
-                timeout: 10000,
-            });
-
-            // Get all versions from the releases object keys
-            const releases = resp.data?.releases || {};
-            const versionList = Object.keys(releases)
-                .filter(version => {
-                    // Filter out versions with no files (yanked/empty releases)
-                    const files = releases[version];
-                    return Array.isArray(files) && files.length > 0;
-                })
-                .sort((a, b) => {
-                    // Sort versions in descending order (newest first)
-                    // Simple version comparison - split by . and compare parts
-                    const partsA = a.split('.').map(p => parseInt(p.replace(/[^0-9]/g, '')) || 0);
-                    const partsB = b.split('.').map(p => parseInt(p.replace(/[^0-9]/g, '')) || 0);
-                    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-                        const diff = (partsB[i] || 0) - (partsA[i] || 0);
-                        if (diff !== 0) {
-                            return diff;
-                        }
-                    }
-                    return 0;
-                });
-
-            return versionList;
+            const { releases } = await this.fetchReleaseFiles(info.name, 10000, cancelToken);
+            return this.parseReleases(releases, await this.getPythonVersion());
         } catch (err) {
-            // Fallback: return empty array if PyPI API fails
+            // Fallback: return empty array if the index cannot be reached
             return [];
         }
     }
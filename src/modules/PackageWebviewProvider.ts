@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
 import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
-import { IPackageManager, PackageVersionInfo } from './PackageManager';
-import { IExtensionContext } from '@/interface/common';
+import { IPackageManager, PackageVersionInfo, necessaryPackage } from './PackageManager';
+import { DependencyGraph } from './DependencyGraph';
+import { findDeclaredPackages } from './Manifests';
+import { IUpdatePolicy } from './UpdatePolicy';
+import { IDependencyDiagnostics } from './DependencyDiagnostics';
+import { IInstallPreview } from './InstallPreview';
+import { BulkUpdateResult, UpdateTarget, reportBulkUpdate, runBulkUpdate } from './BulkUpdate';
+import { mergeEnvironmentReport } from './EnvironmentReport';
+import { IExtensionContext, IOutputChannel } from '@/interface/common';
+import * as utils from '@/utils';
 
 export interface IPackageWebviewProvider extends vscode.WebviewViewProvider {
     refresh(): void;
@@ -18,11 +26,21 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
     private _view?: vscode.WebviewView;
     private _packages: PackageVersionInfo[] = [];
     private _isLoading: boolean = false;
+    private _backend: string = '';
 
     constructor(
         @IPackageManager private readonly pip: IPackageManager,
+        @IUpdatePolicy private readonly policy: IUpdatePolicy,
+        @IDependencyDiagnostics private readonly diagnostics: IDependencyDiagnostics,
+        @IInstallPreview private readonly installPreview: IInstallPreview,
+        @IOutputChannel private readonly output: IOutputChannel,
         @IExtensionContext private readonly context: IExtensionContext
-    ) {}
+    ) {
+        this.context.subscriptions.push(
+            this.policy.onDidChange(() => this.refresh()),
+            this.diagnostics.onDidChange(() => this._showConflicts()),
+        );
+    }
 
     static Create(instantiation: InstantiationService, service?: ServiceCollection) {
         const instance = instantiation.createInstance<IPackageWebviewProvider>(PackageWebviewProvider);
@@ -74,15 +92,30 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
             this._postMessage({
                 type: 'packages',
                 data: this._packages,
-                hasRequirements: false
+                hasRequirements: false,
+                backend: this._backend
             });
         }
     }
 
     public refresh(): void {
+        this.diagnostics.check();
         this._loadPackages();
     }
 
+    private _showConflicts(): void {
+        for (const pkg of this._packages) {
+            pkg.conflicts = this.diagnostics.conflictsFor(pkg.name);
+        }
+        if (!this._isLoading && this._packages.length > 0) {
+            this._postMessage({
+                type: 'packages',
+                data: this._packages,
+                hasRequirements: false
+            });
+        }
+    }
+
     private async _loadPackages(): Promise<void> {
         if (!this._view) {
             return;
@@ -92,8 +125,16 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
         this._postMessage({ type: 'loading', value: true });
 
         try {
+            // Details come from a second, slower call. Start it now, the list works without it
+            const report = this.pip.getEnvironmentReport().catch(() => null);
+
             // First, get the package list quickly and display it
             this._packages = await this.pip.getPackageList();
+            this._backend = await this.pip.getBackendId();
+            for (const pkg of this._packages) {
+                pkg.policy = this.policy.getPolicy(pkg.name, pkg.version);
+                pkg.conflicts = this.diagnostics.conflictsFor(pkg.name);
+            }
 
             // Check for requirements.txt in workspace if no packages found
             let hasRequirements = false;
@@ -117,7 +158,8 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
             this._postMessage({
                 type: 'packages',
                 data: this._packages,
-                hasRequirements
+                hasRequirements,
+                backend: this._backend
             });
 
             // Mark loading as done for the initial list
@@ -127,26 +169,33 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
             // Now check each package individually for updates (progressive)
             this._postMessage({ type: 'checkingUpdates', value: true });
 
-            // Check packages in parallel batches of 5 for speed
-            const batchSize = 5;
-            for (let i = 0; i < this._packages.length; i += batchSize) {
-                const batch = this._packages.slice(i, i + batchSize);
-                const promises = batch.map(async (pkg) => {
-                    const latestVersion = await this.pip.checkPackageLatestVersion(pkg.name);
-                    if (latestVersion) {
-                        pkg.latestVersion = latestVersion;
-                    }
+            const details = await report;
+            if (details) {
+                this._packages = mergeEnvironmentReport(this._packages, details);
+                this._postMessage({
+                    type: 'packages',
+                    data: this._packages,
+                    hasRequirements
                 });
+            }
 
-                await Promise.all(promises);
-
-                // Send incremental update to UI after each batch
+            // Check every package at once, the package manager's fetch scheduler limits concurrency.
+            // Results reach the UI in batches as they come in rather than one message per package.
+            let pendingUpdate: NodeJS.Timeout | undefined;
+            const sendPackages = () => {
+                pendingUpdate = undefined;
                 this._postMessage({
                     type: 'packages',
                     data: this._packages,
                     hasRequirements
                 });
-            }
+            };
+            await Promise.all(this._packages.map(async (pkg) => {
+                await this._checkLatestVersion(pkg);
+                pendingUpdate = pendingUpdate || setTimeout(sendPackages, 200);
+            }));
+            clearTimeout(pendingUpdate);
+            sendPackages();
 
             this._postMessage({ type: 'checkingUpdates', value: false });
         } catch (error: any) {
@@ -163,6 +212,52 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
         }
     }
 
+    /**
+     * Fill in a package's latest version, or why it could not be checked
+     */
+    private async _checkLatestVersion(pkg: PackageVersionInfo): Promise<void> {
+        pkg.checkError = undefined;
+        if (pkg.policy?.type === 'ignore') {
+            return;
+        }
+        try {
+            // Report the newest version the workspace policy allows, not the newest overall
+            const latest = await this.pip.checkPackageLatestVersion(pkg.name, undefined, pkg.policy?.specifier);
+            if (latest) {
+                pkg.latestVersion = latest.version;
+                pkg.stale = latest.stale;
+                pkg.hasUpdate = utils.isNewerVersion(latest.version, pkg.version);
+                pkg.updateType = utils.getUpdateType(pkg.version, latest.version) || undefined;
+            } else {
+                // Checked, but no release satisfies the policy
+                pkg.hasUpdate = false;
+            }
+        } catch (error: any) {
+            pkg.checkError = error?.message || String(error);
+        }
+    }
+
+    private async _retryCheck(packageName: string): Promise<void> {
+        const pkg = this._packages.find((p) => p.name === packageName);
+        if (!pkg) {
+            return;
+        }
+        await this._checkLatestVersion(pkg);
+        this._postMessage({
+            type: 'packages',
+            data: this._packages,
+            hasRequirements: false
+        });
+    }
+
+    private _showReleaseNotes(packageName: string): void {
+        const pkg = this._packages.find((p) => p.name === packageName);
+        if (!pkg?.latestVersion) {
+            return;
+        }
+        vscode.commands.executeCommand('pydep-pilot.showReleaseNotes', pkg.name, pkg.version, pkg.latestVersion);
+    }
+
     private async _handleMessage(message: WebviewMessage): Promise<void> {
         switch (message.type) {
             case 'refresh':
@@ -177,13 +272,20 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
                 await this._updateSinglePackage(message.payload as string);
                 break;
 
+            case 'retryCheck':
+                await this._retryCheck(message.payload as string);
+                break;
+
             case 'remove':
                 await this._removePackage(message.payload as string);
                 break;
 
-            case 'openPyPI':
-                const packageName = message.payload as string;
-                vscode.env.openExternal(vscode.Uri.parse(`https://pypi.org/project/${packageName}/`));
+            case 'whatsNew':
+                this._showReleaseNotes(message.payload as string);
+                break;
+
+            case 'showDetails':
+                vscode.commands.executeCommand('pydep-pilot.showPackageDetails', message.payload as string);
                 break;
 
             case 'addPackage':
@@ -305,81 +407,189 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
             return;
         }
 
-        const results = { success: [] as string[], failed: [] as { name: string; error: string }[] };
+        const targets = new Map<string, UpdateTarget>(packages.map((name) => [name, this._resolveUpdateTarget(name)]));
+        const specs = [...targets.values()].filter((target): target is string => typeof target === 'string');
+        if (specs.length && !await this.installPreview.confirm({ type: 'update', specs })) {
+            this._postMessage({ type: 'updateComplete' });
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        const together = config.get<string>('bulkUpdateMode', 'together') === 'together';
 
-        await vscode.window.withProgress({
+        const result = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Updating packages',
             cancellable: true
-        }, async (progress, token) => {
-            for (let i = 0; i < packages.length; i++) {
-                if (token.isCancellationRequested) {
-                    break;
-                }
-
-                const pkg = packages[i];
+        }, (progress, token) => runBulkUpdate(targets, together, {
+            updateAll: (all) => {
+                progress.report({ message: `Resolving ${all.length} packages together` });
+                return this.pip.updatePackages(all, token);
+            },
+            updateOne: (name, spec, current, total) => {
                 progress.report({
-                    message: `${pkg} (${i + 1}/${packages.length})`,
-                    increment: (100 / packages.length)
+                    message: `${name} (${current}/${total})`,
+                    increment: (100 / total)
                 });
-
                 this._postMessage({
                     type: 'progress',
-                    current: i + 1,
-                    total: packages.length,
-                    name: pkg
+                    current,
+                    total,
+                    name
                 });
+                return this.pip.updatePackage(spec, token);
+            },
+            isCancelled: () => token.isCancellationRequested,
+        }));
 
-                try {
-                    await this.pip.updatePackage(pkg, token);
-                    results.success.push(pkg);
-                } catch (error) {
-                    results.failed.push({ name: pkg, error: String(error) });
-                }
-            }
-        });
-
-        // Show results
-        if (results.failed.length > 0) {
-            vscode.window.showWarningMessage(
-                `Updated ${results.success.length} packages. Failed: ${results.failed.map(f => f.name).join(', ')}`
-            );
-        } else if (results.success.length > 0) {
-            vscode.window.showInformationMessage(`Successfully updated ${results.success.length} packages`);
-        }
-
+        await this._reportUpdateOutcomes(result);
         this._postMessage({ type: 'updateComplete' });
         this.refresh();
     }
 
+    /**
+     * One line per package in the output channel, counts in a notification. Versions come from listing
+     * the environment again, the resolver may have installed something other than the latest version.
+     */
+    private async _reportUpdateOutcomes(result: BulkUpdateResult): Promise<void> {
+        const installed = await this.pip.getPackageList().catch(() => []);
+        const versions = new Map<string, { from: string; to: string }>();
+        for (const pkg of this._packages) {
+            const after = installed.find((p) => utils.normalizePackageName(p.name) === utils.normalizePackageName(pkg.name));
+            if (after) {
+                versions.set(pkg.name, { from: pkg.version, to: after.version });
+            }
+        }
+        const { details, message, complete } = reportBulkUpdate(result, versions);
+        details.forEach((line) => this.output.appendLine(line));
+        const show = complete ? vscode.window.showInformationMessage : vscode.window.showWarningMessage;
+        show(message, 'Show Details').then((choice) => {
+            if (choice) {
+                this.output.show();
+            }
+        });
+    }
+
     private async _updateSinglePackage(packageName: string): Promise<void> {
+        const target = this._resolveUpdateTarget(packageName);
+        if (typeof target !== 'string') {
+            const pkg = this._packages.find((p) => p.name === packageName);
+            if (target.held === 'checkFailed') {
+                vscode.window.showWarningMessage(
+                    `Could not update ${packageName}, checking the newest version the workspace update policy allows failed: ${pkg?.checkError}`
+                );
+            } else if (target.held === 'unchecked') {
+                vscode.window.showInformationMessage(
+                    `The newest version of ${packageName} the workspace update policy allows is still being checked, try again when it is done`
+                );
+            } else {
+                const reason = this.policy.getRule(packageName)?.reason;
+                vscode.window.showWarningMessage(
+                    `${packageName} is held back by the workspace update policy${reason ? `: ${reason}` : ''}`
+                );
+            }
+            return;
+        }
+        if (!await this.installPreview.confirm({ type: 'update', specs: [target] })) {
+            return;
+        }
+
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: `Updating ${packageName}`,
             cancellable: true
         }, async (progress, token) => {
-            await this.pip.updatePackage(packageName, token);
+            await this.pip.updatePackage(target, token);
         });
 
         this.refresh();
     }
 
+    /**
+     * What to install when updating a package. Packages under a policy are installed at the
+     * newest version the policy allowed, so an update never breaks a pin. Without one, say why: the policy
+     * allows nothing newer, or that version is unknown because its check failed or is still running.
+     */
+    private _resolveUpdateTarget(packageName: string): UpdateTarget {
+        const pkg = this._packages.find((p) => p.name === packageName);
+        const policy = pkg && this.policy.getPolicy(pkg.name, pkg.version);
+        if (!pkg || !policy) {
+            return packageName;
+        }
+        if (policy.type === 'ignore') {
+            return { held: 'policy' };
+        }
+        if (pkg.checkError) {
+            return { held: 'checkFailed' };
+        }
+        if (pkg.hasUpdate === undefined) {
+            return { held: 'unchecked' };
+        }
+        if (!pkg.hasUpdate || !pkg.latestVersion) {
+            return { held: 'policy' };
+        }
+        return `${pkg.name}==${pkg.latestVersion}`;
+    }
+
+    /**
+     * Dependencies of a package that would be left unused by removing it. Packages the workspace declares,
+     * the ones pip needs itself and the ones installed on their own are never offered.
+     */
+    private async _findUnusedDependencies(graph: DependencyGraph, packageName: string) {
+        // Poetry and pipenv own their environments, their lock files already drop unused packages
+        const backend = await this.pip.getBackendId();
+        if (backend === 'poetry' || backend === 'pipenv') {
+            return [];
+        }
+        const folders = (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
+        const keep = await findDeclaredPackages(folders);
+        necessaryPackage.forEach((name) => keep.add(name));
+        graph.all().filter((dist) => dist.requested).forEach((dist) => keep.add(utils.normalizePackageName(dist.name)));
+        return graph.unusedAfterRemoving(packageName, keep);
+    }
+
     private async _removePackage(packageName: string): Promise<void> {
+        // Without a report there is nothing to warn about, removal still works
+        const graph = await this.pip.getDependencyGraph().catch(() => undefined);
+        const dependents = graph?.dependents(packageName) || [];
+        const unused = graph ? await this._findUnusedDependencies(graph, packageName).catch(() => []) : [];
+        const detail = dependents.length
+            ? `${dependents.length === 1 ? '1 installed package requires' : `${dependents.length} installed packages require`} it and may stop working:\n`
+                + dependents.map(({ dist, specifier }) => `${dist.name} ${dist.version}${specifier ? ` (needs ${specifier})` : ''}`).join('\n')
+            : undefined;
+        const removeOnly = dependents.length ? 'Remove Anyway' : 'Remove';
+        const removeUnused = 'Remove with Unused Dependencies...';
         const confirm = await vscode.window.showWarningMessage(
             `Remove package "${packageName}"?`,
-            { modal: true },
-            'Remove'
+            { modal: true, detail },
+            ...(unused.length ? [removeOnly, removeUnused] : [removeOnly])
         );
 
-        if (confirm !== 'Remove') {
+        if (!confirm) {
             return;
         }
 
+        const names = [packageName];
+        if (confirm === removeUnused) {
+            names.push(...unused.map((dist) => dist.name));
+            const uninstall = await vscode.window.showWarningMessage(
+                `Uninstall ${names.length} packages?`,
+                {
+                    modal: true,
+                    detail: `${packageName}\n${unused.map((dist) => `${dist.name} ${dist.version}`).join('\n')}\n\nNo other installed package requires the dependencies, and none of them is declared in a requirements file or pyproject.toml.`,
+                },
+                'Uninstall'
+            );
+            if (uninstall !== 'Uninstall') {
+                return;
+            }
+        }
+
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Removing ${packageName}`,
+            title: `Removing ${names.join(', ')}`,
         }, async () => {
-            await this.pip.removePackage(packageName);
+            await this.pip.removePackages(names);
         });
 
         this.refresh();
@@ -445,12 +655,24 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
             </div>
         </div>
 
+        <div class="filter-chips">
+            <button class="filter-chip active" data-filter="all">All</button>
+            <button class="filter-chip" data-filter="updates">Updates</button>
+            <button class="filter-chip major" data-filter="major">Major</button>
+            <button class="filter-chip minor" data-filter="minor">Minor</button>
+            <button class="filter-chip patch" data-filter="patch">Patch</button>
+        </div>
+
         <div class="select-all-row">
             <label class="checkbox-container">
                 <input type="checkbox" id="select-all-checkbox" />
                 <span class="checkmark"></span>
                 <span class="select-all-label">Select all with updates</span>
             </label>
+            <div class="select-by-type">
+                <button class="link-btn" data-select-type="patch" title="Select all patch updates">Select patch</button>
+                <button class="link-btn" data-select-type="minor" title="Select all minor updates">Select minor</button>
+            </div>
         </div>
 
         <div class="table-header">
@@ -468,6 +690,7 @@ export class PackageWebviewProvider implements IPackageWebviewProvider {
 
         <div class="footer">
             <span id="total-count">0 packages</span>
+            <span id="backend-label"></span>
             <span id="update-available-count"></span>
         </div>
     </div>
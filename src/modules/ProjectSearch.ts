@@ -0,0 +1,73 @@
+import * as utils from '@/utils';
+
+/**
+ * How well `query` matches a normalized project name, 0 for no match.
+ * Exact beats prefix beats substring beats a scattered subsequence, shorter names win ties.
+ */
+export function fuzzyScore(query: string, name: string): number {
+    if (!query) {
+        return 0;
+    }
+    if (name === query) {
+        return 10000;
+    }
+    const lengthPenalty = Math.min(name.length - query.length, 999);
+    if (name.startsWith(query)) {
+        return 8000 - lengthPenalty;
+    }
+    const index = name.indexOf(query);
+    if (index >= 0) {
+        // Matches at a word boundary read like prefixes of a name part
+        return (name[index - 1] === '-' ? 6000 : 4000) - index - lengthPenalty;
+    }
+    let gaps = 0;
+    let position = -1;
+    for (const char of query) {
+        const next = name.indexOf(char, position + 1);
+        if (next < 0) {
+            return 0;
+        }
+        gaps += next - position - 1;
+        position = next;
+    }
+    return Math.max(1, 2000 - gaps * 10 - lengthPenalty);
+}
+
+/**
+ * Project names of an index prepared for repeated fuzzy searches
+ */
+export class ProjectSearchIndex {
+    private readonly normalized: string[];
+
+    constructor(private readonly names: string[]) {
+        this.normalized = names.map((name) => utils.normalizePackageName(name));
+    }
+
+    get size() {
+        return this.names.length;
+    }
+
+    search(query: string, limit = 50): string[] {
+        const q = utils.normalizePackageName(query.trim());
+        if (!q) {
+            return [];
+        }
+        // A single character matches most of PyPI as a subsequence, only offer prefixes then
+        const prefixOnly = q.length < 2;
+        const matches: { name: string; score: number }[] = [];
+        for (let i = 0; i < this.normalized.length; i++) {
+            const name = this.normalized[i];
+            if (prefixOnly && !name.startsWith(q)) {
+                continue;
+            }
+            const score = fuzzyScore(q, name);
+            if (score > 0) {
+                matches.push({ name: this.names[i], score });
+            }
+        }
+        return matches
+            .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+            .slice(0, limit)
+            .map((match) => match.name);
+    }
+}
@@ -84,8 +84,9 @@ export interface PythonExtensionApi {
 export interface IPythonExtension {
     readonly pythonExtension: vscode.Extension<PythonExtensionApi> | undefined;
     readonly pythonPath: string;
+    readonly execCommand: string[];
     waitPythonExtensionInited: () => Promise<boolean>;
-    onPythonPathChange: (callback: (pythonPath: string) => any) => void;
+    onExecCommandChange: (callback: (execCommand: string[]) => any) => void;
 }
 
 export const IPythonExtension = createDecorator<IPythonExtension>('pythonExtension');
@@ -116,18 +117,29 @@ export class PythonExtension implements IPythonExtension {
         return this._pythonExtension;
     }
 
-    getPythonPath() {
+    /**
+     * The full command that runs the selected interpreter, e.g. `['conda', 'run', 'python']`
+     */
+    getExecCommand(): string[] {
         if (!this.pythonExtension) {
-            return '';
+            return [];
         }
         const executionDetails = this.pythonExtension.exports.settings.getExecutionDetails();
-        return executionDetails?.execCommand?.[0] || '';
+        return executionDetails?.execCommand || [];
+    }
+
+    getPythonPath() {
+        return this.getExecCommand().join(' ');
     }
 
     get pythonPath() {
         return this.getPythonPath();
     }
 
+    get execCommand() {
+        return this.getExecCommand();
+    }
+
     private waitPythonPath(timeoutMs: number = 5000) {
         let timer: NodeJS.Timeout | null = null;
         let timeoutTimer: NodeJS.Timeout | null = null;
@@ -165,10 +177,9 @@ export class PythonExtension implements IPythonExtension {
         return !!pythonPath;
     }
 
-    onPythonPathChange(callback: (pythonPath: string) => any) {
+    onExecCommandChange(callback: (execCommand: string[]) => any) {
         const dispose = this.pythonExtension?.exports.settings.onDidChangeExecutionDetails(() => {
-            const pythonPath = this.getPythonPath();
-            return callback(pythonPath);
+            return callback(this.getExecCommand());
         });
         if (dispose) {
             this._context.subscriptions.push(dispose);
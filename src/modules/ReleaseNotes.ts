@@ -0,0 +1,358 @@
+import axios from 'axios';
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IPackageManager } from './PackageManager';
+import { ArchiveEntry, DistributionFile, isChangelogPath, readArchiveEntries } from './DistributionArchive';
+
+export interface ReleaseNotesRequest {
+    name: string;
+    /** Notes newer than this version... */
+    fromVersion: string;
+    /** ...up to and including this one */
+    toVersion: string;
+    /** Label → URL from the installed distribution's metadata */
+    projectUrls?: Record<string, string>;
+}
+
+export interface ReleaseNote {
+    version: string;
+    title?: string;
+    /** YYYY-MM-DD when the source has a date */
+    date?: string;
+    /** Markdown, or whatever markup the project wrote its changelog in */
+    body: string;
+    url?: string;
+}
+
+export interface ReleaseNotesResult {
+    source: string;
+    /** Where to read more, e.g. the releases page */
+    sourceUrl?: string;
+    /** Newest first */
+    notes: ReleaseNote[];
+}
+
+/**
+ * One place release notes can come from. A source resolves undefined when it has nothing for the package.
+ */
+export interface ReleaseNotesSource {
+    find(request: ReleaseNotesRequest, cancelToken?: vscode.CancellationToken): Promise<ReleaseNotesResult | undefined>;
+}
+
+export interface IReleaseNotes {
+    collect(request: ReleaseNotesRequest, cancelToken?: vscode.CancellationToken): Promise<ReleaseNotesResult | undefined>;
+}
+
+export const IReleaseNotes = createDecorator<IReleaseNotes>('releaseNotes');
+
+const VERSION_IN_TEXT = /(?:^|[^\w.])v?(\d+(?:\.\d+)+(?:[-_.]?(?:a|b|c|rc|alpha|beta|pre|post|dev)\d*)*)(?![\w.]*\d)/i;
+
+function inRange(version: string, request: ReleaseNotesRequest) {
+    return utils.compareVersions(version, request.fromVersion) > 0 && utils.compareVersions(version, request.toVersion) <= 0;
+}
+
+function sortNewestFirst(notes: ReleaseNote[]) {
+    return notes.sort((a, b) => utils.compareVersions(b.version, a.version));
+}
+
+/**
+ * The GitHub repository a project links to, preferring links labelled as its source
+ */
+export function findGitHubRepository(projectUrls: Record<string, string> = {}): { owner: string; repo: string } | undefined {
+    const entries = Object.entries(projectUrls).sort(([a], [b]) => {
+        const rank = (label: string) => /source|repository|code|github/i.test(label) ? 0 : 1;
+        return rank(a) - rank(b);
+    });
+    for (const [, url] of entries) {
+        const match = /^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)/i.exec(url);
+        if (match) {
+            return { owner: match[1], repo: match[2].replace(/\.git$/i, '') };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Version a release tag stands for. Tags prefixed with another package's name (monorepos) do not count.
+ */
+export function versionFromTag(tag: string, packageName: string): string | undefined {
+    const digit = tag.search(/\d/);
+    if (digit < 0) {
+        return undefined;
+    }
+    const prefix = tag.slice(0, digit).replace(/[-_/@ ]*v?$/i, '');
+    if (prefix && !/^(release|version|rel)$/i.test(prefix)
+        && utils.normalizePackageName(prefix) !== utils.normalizePackageName(packageName)) {
+        return undefined;
+    }
+    const version = tag.slice(digit);
+    return utils.isValidVersion(version) ? utils.normalizeVersion(version) : undefined;
+}
+
+export interface GitHubReleasesOptions {
+    /** REST API root, GitHub Enterprise or a test server instead of api.github.com */
+    apiUrl?: string;
+    getToken?: () => Promise<string | undefined>;
+    /** Pages of 100 releases to read at most */
+    maxPages?: number;
+    timeout?: number;
+}
+
+/**
+ * Release notes from the GitHub releases of the repository the project links to
+ */
+export class GitHubReleasesSource implements ReleaseNotesSource {
+    constructor(private readonly options: GitHubReleasesOptions = {}) { }
+
+    async find(request: ReleaseNotesRequest, cancelToken?: vscode.CancellationToken): Promise<ReleaseNotesResult | undefined> {
+        const repository = findGitHubRepository(request.projectUrls);
+        if (!repository) {
+            return undefined;
+        }
+        const apiUrl = (this.options.apiUrl || 'https://api.github.com').replace(/\/+$/, '');
+        const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+        const token = await this.options.getToken?.();
+        if (token) {
+            headers.Authorization = `Bearer ${token}`;
+        }
+
+        const axiosCancelToken = utils.createAxiosCancelToken(cancelToken);
+        const notes: ReleaseNote[] = [];
+        for (let page = 1; page <= (this.options.maxPages ?? 3); page++) {
+            const resp = await axios({
+                method: 'GET',
+                url: `${apiUrl}/repos/${repository.owner}/${repository.repo}/releases`,
+                params: { per_page: 100, page },
+                headers,
+                timeout: this.options.timeout ?? 10000,
+                cancelToken: axiosCancelToken.token,
+            });
+            const releases: any[] = Array.isArray(resp.data) ? resp.data : [];
+            let older = 0;
+            for (const release of releases) {
+                const version = release?.draft ? undefined : versionFromTag(String(release?.tag_name || ''), request.name);
+                if (!version) {
+                    continue;
+                }
+                if (utils.compareVersions(version, request.fromVersion) <= 0) {
+                    older++;
+                }
+                if (inRange(version, request)) {
+                    notes.push({
+                        version,
+                        title: release.name || undefined,
+                        date: typeof release.published_at === 'string' ? release.published_at.slice(0, 10) : undefined,
+                        body: String(release.body || '').trim(),
+                        url: release.html_url || undefined,
+                    });
+                }
+            }
+            // Releases come newest first, a page that already reached the installed version is the last one needed
+            if (releases.length < 100 || older > 0) {
+                break;
+            }
+        }
+        if (!notes.length) {
+            return undefined;
+        }
+        return {
+            source: 'GitHub releases',
+            sourceUrl: `https://github.com/${repository.owner}/${repository.repo}/releases`,
+            notes: sortNewestFirst(notes),
+        };
+    }
+}
+
+/**
+ * The long description of a core metadata (METADATA / PKG-INFO) file
+ */
+export function metadataDescription(metadata: string): string {
+    const text = metadata.replace(/\r\n/g, '\n');
+    const blank = text.indexOf('\n\n');
+    const headers = blank < 0 ? text : text.slice(0, blank);
+    if (blank >= 0 && text.slice(blank + 2).trim()) {
+        return text.slice(blank + 2);
+    }
+    // Metadata 1.x puts it in a folded Description header, continuation lines indented by 8 spaces and blank ones written as `|`
+    const lines = headers.split('\n');
+    const start = lines.findIndex((line) => /^Description:/i.test(line));
+    if (start < 0) {
+        return '';
+    }
+    const description = [lines[start].replace(/^Description:\s?/i, '')];
+    for (const line of lines.slice(start + 1)) {
+        if (!/^( {8}|\t)/.test(line)) {
+            break;
+        }
+        description.push(line.replace(/^( {8}|\t)/, '').replace(/^\|$/, ''));
+    }
+    return description.join('\n');
+}
+
+/**
+ * Sections of a changelog whose heading names a version in the requested range. Markdown `#` headings
+ * and reStructuredText underlined headings are both understood.
+ */
+export function extractChangelogSections(text: string, request: ReleaseNotesRequest): ReleaseNote[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const underlineLevels: string[] = [];
+    const headings: { line: number; end: number; level: number; title: string }[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const atx = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(lines[i]);
+        if (atx) {
+            headings.push({ line: i, end: i + 1, level: atx[1].length, title: atx[2] });
+            continue;
+        }
+        const underline = /^([=\-~^*+#"'`])\1{2,}\s*$/.exec(lines[i + 1] || '');
+        if (lines[i].trim() && underline && !/^([=\-~^*+#"'`])\1{2,}\s*$/.test(lines[i])) {
+            if (!underlineLevels.includes(underline[1])) {
+                underlineLevels.push(underline[1]);
+            }
+            headings.push({ line: i, end: i + 2, level: underlineLevels.indexOf(underline[1]) + 1, title: lines[i].trim() });
+            i++;
+        }
+    }
+
+    const notes: ReleaseNote[] = [];
+    headings.forEach((heading, index) => {
+        const match = VERSION_IN_TEXT.exec(heading.title);
+        if (!match || !utils.isValidVersion(match[1])) {
+            return;
+        }
+        const version = utils.normalizeVersion(match[1]);
+        if (!inRange(version, request)) {
+            return;
+        }
+        // The section runs until the next heading at the same level or above
+        const next = headings.slice(index + 1).find((other) => other.level <= heading.level);
+        const body = lines.slice(heading.end, next ? next.line : lines.length).join('\n').trim();
+        const date = /\b(\d{4}-\d{2}-\d{2})\b/.exec(heading.title)?.[1];
+        notes.push({ version, title: heading.title, date, body });
+    });
+    return sortNewestFirst(notes);
+}
+
+/**
+ * Changelog sections in the long description of the newest release's core metadata, the project page
+ * text on PyPI. Only projects that append their changelog to the README that becomes the description
+ * have any, it is tried before downloading the distribution for its CHANGELOG file.
+ */
+export class LongDescriptionChangelogSource implements ReleaseNotesSource {
+    constructor(
+        private readonly getMetadata: (name: string, version: string, cancelToken?: vscode.CancellationToken) => Promise<string | undefined>,
+    ) { }
+
+    async find(request: ReleaseNotesRequest, cancelToken?: vscode.CancellationToken): Promise<ReleaseNotesResult | undefined> {
+        const metadata = await this.getMetadata(request.name, request.toVersion, cancelToken);
+        if (!metadata) {
+            return undefined;
+        }
+        const notes = extractChangelogSections(metadataDescription(metadata), request);
+        return notes.length ? { source: `the changelog in the ${request.toVersion} project description`, notes } : undefined;
+    }
+}
+
+/**
+ * Changelog sections of a CHANGELOG, CHANGES or HISTORY file shipped in the newest release's distribution,
+ * files nearer the top of the archive first
+ */
+export class DistributionChangelogSource implements ReleaseNotesSource {
+    constructor(
+        private readonly getDistribution: (name: string, version: string, cancelToken?: vscode.CancellationToken) => Promise<DistributionFile | undefined>,
+    ) { }
+
+    async find(request: ReleaseNotesRequest, cancelToken?: vscode.CancellationToken): Promise<ReleaseNotesResult | undefined> {
+        const distribution = await this.getDistribution(request.name, request.toVersion, cancelToken);
+        if (!distribution) {
+            return undefined;
+        }
+        const depth = (entry: ArchiveEntry) => entry.path.split('/').length;
+        const entries = readArchiveEntries(distribution, isChangelogPath).sort((a, b) => depth(a) - depth(b));
+        for (const entry of entries) {
+            const notes = extractChangelogSections(entry.text, request);
+            if (notes.length) {
+                return { source: `${entry.path.split('/').pop()} in ${distribution.filename}`, notes };
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Markdown document listing the notes, or saying where to look when there are none
+ */
+export function formatReleaseNotes(request: ReleaseNotesRequest, result?: ReleaseNotesResult): string {
+    const lines = [`# ${request.name} ${request.fromVersion} → ${request.toVersion}`, ''];
+    if (!result) {
+        lines.push(`No release notes were found between ${request.fromVersion} and ${request.toVersion}.`);
+        const links = Object.entries(request.projectUrls || {});
+        if (links.length) {
+            lines.push('', 'The project links to:', '');
+            lines.push(...links.map(([label, url]) => `- [${label}](${url})`));
+        }
+        return lines.join('\n') + '\n';
+    }
+    lines.push(result.sourceUrl ? `From [${result.source}](${result.sourceUrl})` : `From ${result.source}`, '');
+    for (const note of result.notes) {
+        const title = note.title && note.title !== note.version && !note.title.endsWith(note.version) ? ` — ${note.title}` : '';
+        const heading = `## ${note.url ? `[${note.version}](${note.url})` : note.version}${title}${note.date ? ` (${note.date})` : ''}`;
+        lines.push(heading, '', note.body || '_No notes for this release._', '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Looks up release notes for an update, trying each source in order until one has notes
+ */
+export class ReleaseNotes implements IReleaseNotes {
+    private readonly sources: ReleaseNotesSource[];
+
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+    ) {
+        this.sources = [
+            new GitHubReleasesSource({ getToken: () => this.getGitHubToken() }),
+            new LongDescriptionChangelogSource((name, version, cancelToken) => this.pip.getCoreMetadata(name, version, cancelToken)),
+            new DistributionChangelogSource((name, version, cancelToken) => this.pip.getDistribution(name, version, cancelToken)),
+        ];
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IReleaseNotes>(ReleaseNotes);
+        if (service) {
+            service.set(IReleaseNotes, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * A GitHub session the user already granted raises the API rate limit, never prompt for one
+     */
+    private async getGitHubToken() {
+        try {
+            const session = await vscode.authentication.getSession('github', [], { silent: true });
+            return session?.accessToken;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async collect(request: ReleaseNotesRequest, cancelToken?: vscode.CancellationToken): Promise<ReleaseNotesResult | undefined> {
+        for (const source of this.sources) {
+            try {
+                const result = await source.find(request, cancelToken);
+                if (result) {
+                    return result;
+                }
+            } catch (err) {
+                if (axios.isCancel(err) || cancelToken?.isCancellationRequested) {
+                    throw err;
+                }
+                // A rate limited or missing source leaves the next one to try
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext, IOutputChannel } from '@/interface/common';
+import { IPackageManager } from './PackageManager';
+import { IIndexRegistry } from './IndexRegistry';
+import { ProjectSearchIndex } from './ProjectSearch';
+import { pyprojectDependencyPrefix, requirementCompletionAt } from './Manifests';
+import { REQUIREMENTS_SELECTOR } from './RequirementsLanguage';
+
+const PYPROJECT_SELECTOR: vscode.DocumentSelector = { scheme: 'file', pattern: '**/pyproject.toml' };
+
+export interface IRequirementsCompletion {
+    /** Forget the project list, the next completion loads it again */
+    reset(): void;
+}
+
+export const IRequirementsCompletion = createDecorator<IRequirementsCompletion>('requirementsCompletion');
+
+/**
+ * Package names from the indexes' project list and versions from the package's releases, in requirements
+ * files and the dependency arrays of pyproject.toml
+ */
+export class RequirementsCompletion implements IRequirementsCompletion, vscode.CompletionItemProvider {
+    private searchIndex?: Promise<ProjectSearchIndex>;
+
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+        @IIndexRegistry private readonly indexes: IIndexRegistry,
+        @IOutputChannel private readonly output: IOutputChannel,
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) {
+        this.context.subscriptions.push(
+            vscode.languages.registerCompletionItemProvider(REQUIREMENTS_SELECTOR, this, '=', '>', '~'),
+            vscode.languages.registerCompletionItemProvider(PYPROJECT_SELECTOR, this, '"', '\'', '=', '>', '~'),
+            this.indexes.onDidChange(() => this.reset()),
+        );
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IRequirementsCompletion>(RequirementsCompletion);
+        if (service) {
+            service.set(IRequirementsCompletion, instance);
+        }
+        return instance;
+    }
+
+    reset() {
+        this.searchIndex = undefined;
+    }
+
+    private getSearchIndex() {
+        if (!this.searchIndex) {
+            this.searchIndex = this.pip.getProjectNames().then((names) => new ProjectSearchIndex(names));
+            this.searchIndex.catch((err) => {
+                this.output.appendLine(`Project list could not be loaded: ${err}`);
+                this.searchIndex = undefined;
+            });
+        }
+        return this.searchIndex;
+    }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CompletionList | undefined> {
+        const typed = document.fileName.endsWith('pyproject.toml')
+            ? pyprojectDependencyPrefix(document.getText(new vscode.Range(new vscode.Position(0, 0), position)))
+            : document.lineAt(position.line).text.slice(0, position.character);
+        const completion = typed === undefined ? undefined : requirementCompletionAt(typed);
+        if (!completion) {
+            return undefined;
+        }
+        const range = new vscode.Range(position.translate(0, -completion.prefix.length), position);
+
+        if (completion.kind === 'name') {
+            // Every keystroke narrows the list, ask again rather than filter a fixed set
+            if (!completion.prefix) {
+                return new vscode.CompletionList([], true);
+            }
+            const searchIndex = await this.getSearchIndex().catch(() => undefined);
+            if (!searchIndex || token.isCancellationRequested) {
+                return undefined;
+            }
+            const items = searchIndex.search(completion.prefix).map((name, i) => {
+                const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Module);
+                item.range = range;
+                // Keep the search ranking, VS Code would sort by label
+                item.sortText = String(i).padStart(4, '0');
+                item.filterText = completion.prefix;
+                return item;
+            });
+            return new vscode.CompletionList(items, true);
+        }
+
+        const versions = await this.pip.getPackageVersionList(completion.name, token).catch(() => undefined);
+        if (!versions || token.isCancellationRequested) {
+            return undefined;
+        }
+        const items = versions.map((version, i) => {
+            const item = new vscode.CompletionItem(version, vscode.CompletionItemKind.Constant);
+            item.range = range;
+            item.detail = `${completion.name}${completion.operator}${version}`;
+            // Newest first, as the index lists them
+            item.sortText = String(i).padStart(5, '0');
+            return item;
+        });
+        return new vscode.CompletionList(items);
+    }
+}
@@ -0,0 +1,254 @@
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext } from '@/interface/common';
+import { IPackageManager } from './PackageManager';
+import { ManifestRequirement, findDuplicateRequirements, findInvalidRequirements, parseRequirementsText } from './Manifests';
+
+export const REQUIREMENTS_SELECTOR: vscode.DocumentSelector = [
+    { scheme: 'file', pattern: '**/requirements*.txt' },
+    { scheme: 'file', pattern: '**/requirements/*.txt' },
+];
+
+const SHOW_COMMAND = 'pydep-pilot.showPackageDetails';
+const UPDATE_PIN_COMMAND = 'pydep-pilot.requirements.updatePin';
+
+export interface IRequirementsLanguage {
+    /** Replace the version specifiers of a requirement, for the Update pin CodeLens */
+    updatePin(uri: vscode.Uri, line: number, start: number, end: number, specifier: string): Promise<void>;
+}
+
+export const IRequirementsLanguage = createDecorator<IRequirementsLanguage>('requirementsLanguage');
+
+interface InstalledEnvironment {
+    markers: Record<string, string>;
+    /** Normalized name → installed version */
+    versions: Map<string, string>;
+}
+
+/**
+ * Hover, CodeLens and diagnostics for requirements files, checked against the selected interpreter and the indexes
+ */
+export class RequirementsLanguage implements IRequirementsLanguage, vscode.HoverProvider, vscode.CodeLensProvider {
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    private readonly collection = vscode.languages.createDiagnosticCollection('pydep-pilot-requirements');
+    private readonly pendingValidations = new Map<string, NodeJS.Timeout>();
+    private environment?: Promise<InstalledEnvironment>;
+
+    constructor(
+        @IPackageManager private readonly pip: IPackageManager,
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) {
+        this.context.subscriptions.push(
+            this.collection,
+            this._onDidChangeCodeLenses,
+            vscode.languages.registerHoverProvider(REQUIREMENTS_SELECTOR, this),
+            vscode.languages.registerCodeLensProvider(REQUIREMENTS_SELECTOR, this),
+            vscode.workspace.onDidOpenTextDocument((document) => this.scheduleValidation(document, 0)),
+            vscode.workspace.onDidChangeTextDocument((e) => this.scheduleValidation(e.document, 500)),
+            vscode.workspace.onDidCloseTextDocument((document) => this.collection.delete(document.uri)),
+            this.pip.onDidChangePackages(() => {
+                this.environment = undefined;
+                vscode.workspace.textDocuments.forEach((document) => this.scheduleValidation(document, 0));
+                this._onDidChangeCodeLenses.fire();
+            }),
+            { dispose: () => this.pendingValidations.forEach((timer) => clearTimeout(timer)) },
+        );
+        vscode.workspace.textDocuments.forEach((document) => this.scheduleValidation(document, 0));
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IRequirementsLanguage>(RequirementsLanguage);
+        if (service) {
+            service.set(IRequirementsLanguage, instance);
+        }
+        return instance;
+    }
+
+    private getEnvironment() {
+        if (!this.environment) {
+            this.environment = this.pip.getEnvironmentReport().then((report) => ({
+                markers: report.markers,
+                versions: new Map(report.packages.map((pkg) => [utils.normalizePackageName(pkg.name), pkg.version])),
+            }));
+            this.environment.catch(() => {
+                this.environment = undefined;
+            });
+        }
+        return this.environment;
+    }
+
+    /**
+     * Whether the requirement applies to the selected interpreter at all
+     */
+    private applies(requirement: ManifestRequirement, environment?: InstalledEnvironment) {
+        return !requirement.marker || !environment || utils.evaluateMarker(requirement.marker, { ...environment.markers, extra: '' });
+    }
+
+    /**
+     * Installed version of a requirement and whether it satisfies the specifiers, undefined when the environment is unknown
+     */
+    private installedState(requirement: ManifestRequirement, environment?: InstalledEnvironment) {
+        if (!environment) {
+            return undefined;
+        }
+        const version = environment.versions.get(utils.normalizePackageName(requirement.name));
+        const matches = !!version && (!requirement.specifier || utils.satisfies(version, requirement.specifier, { prereleases: true }));
+        return { version, matches };
+    }
+
+    private scheduleValidation(document: vscode.TextDocument, delay: number) {
+        if (!vscode.languages.match(REQUIREMENTS_SELECTOR, document)) {
+            return;
+        }
+        const key = document.uri.toString();
+        clearTimeout(this.pendingValidations.get(key));
+        this.pendingValidations.set(key, setTimeout(() => {
+            this.pendingValidations.delete(key);
+            this.validate(document);
+        }, delay));
+    }
+
+    private async validate(document: vscode.TextDocument) {
+        const version = document.version;
+        const text = document.getText();
+        const requirements = parseRequirementsText(text);
+        const diagnostics: vscode.Diagnostic[] = [];
+        const add = (range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity) => {
+            const diagnostic = new vscode.Diagnostic(range, message, severity);
+            diagnostic.source = 'pydep-pilot';
+            diagnostics.push(diagnostic);
+        };
+        const nameRange = (requirement: ManifestRequirement) => new vscode.Range(requirement.line, requirement.nameStart, requirement.line, requirement.nameEnd);
+
+        for (const invalid of findInvalidRequirements(text)) {
+            add(new vscode.Range(invalid.line, invalid.start, invalid.line, invalid.end),
+                'Not a valid requirement, expected a package name with optional extras, version specifiers and marker',
+                vscode.DiagnosticSeverity.Error);
+        }
+        for (const { requirement, first } of findDuplicateRequirements(requirements)) {
+            add(nameRange(requirement), `${requirement.name} is already required on line ${first.line + 1}`, vscode.DiagnosticSeverity.Warning);
+        }
+        // Syntax problems need no interpreter or network, show them right away
+        this.collection.set(document.uri, diagnostics.slice());
+
+        const environment = await this.getEnvironment().catch(() => undefined);
+        const missing: ManifestRequirement[] = [];
+        for (const requirement of requirements) {
+            const state = this.applies(requirement, environment) ? this.installedState(requirement, environment) : undefined;
+            if (!state) {
+                continue;
+            }
+            if (!state.version) {
+                missing.push(requirement);
+                add(nameRange(requirement), `${requirement.name} is not installed in the selected interpreter`, vscode.DiagnosticSeverity.Information);
+            } else if (!state.matches) {
+                add(new vscode.Range(requirement.line, requirement.nameStart, requirement.line, Math.max(requirement.nameEnd, requirement.specifierEnd)),
+                    `${requirement.name} ${state.version} is installed, which does not match ${requirement.specifier}`,
+                    vscode.DiagnosticSeverity.Warning);
+            }
+        }
+
+        // Only packages that are not installed can be unknown, ask the indexes about those
+        const unknown = await Promise.all(missing.map((requirement) => this.pip.checkPackageLatestVersion(requirement.name)
+            .then(() => false, (err) => err?.response?.status === 404)));
+        missing.filter((_, i) => unknown[i]).forEach((requirement) => {
+            add(nameRange(requirement), `${requirement.name} was not found on the configured package indexes`, vscode.DiagnosticSeverity.Error);
+        });
+
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        const [found] = parseRequirementsText(document.lineAt(position.line).text);
+        if (!found) {
+            return undefined;
+        }
+        const requirement = { ...found, line: position.line };
+        const [environment, summary] = await Promise.all([
+            this.getEnvironment().catch(() => undefined),
+            this.pip.getPackageSummary(requirement.name, token).catch(() => undefined),
+        ]);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = { enabledCommands: [SHOW_COMMAND] };
+        markdown.appendMarkdown('**');
+        markdown.appendText(requirement.name);
+        markdown.appendMarkdown('**');
+        if (summary?.summary) {
+            markdown.appendMarkdown('\n\n');
+            markdown.appendText(summary.summary);
+        }
+
+        const rows: string[] = [];
+        const state = this.installedState(requirement, environment);
+        if (state) {
+            rows.push(state.version
+                ? `Installed: \`${state.version}\`${requirement.specifier ? (state.matches ? ' (matches)' : ` (does not match \`${requirement.specifier}\`)`) : ''}`
+                : 'Installed: not installed');
+        }
+        if (summary?.latestVersion) {
+            rows.push(`Latest: \`${summary.latestVersion}\``);
+        }
+        if (!this.applies(requirement, environment)) {
+            rows.push('The marker excludes the selected interpreter');
+        }
+        if (rows.length) {
+            markdown.appendMarkdown(`\n\n${rows.join('  \n')}`);
+        }
+        const args = encodeURIComponent(JSON.stringify([requirement.name]));
+        markdown.appendMarkdown(`\n\n[Show details](command:${SHOW_COMMAND}?${args})`);
+
+        const range = new vscode.Range(requirement.line, requirement.nameStart, requirement.line, Math.max(requirement.nameEnd, requirement.specifierEnd));
+        return new vscode.Hover(markdown, range);
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const requirements = parseRequirementsText(document.getText());
+        const environment = await this.getEnvironment().catch(() => undefined);
+        const lenses: vscode.CodeLens[] = [];
+
+        await Promise.all(requirements.map(async (requirement) => {
+            if (!this.applies(requirement, environment)) {
+                return;
+            }
+            const range = new vscode.Range(requirement.line, requirement.nameStart, requirement.line, requirement.nameEnd);
+            const state = this.installedState(requirement, environment);
+            if (state && !state.matches) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: state.version ? `Install ${requirement.name}${requirement.specifier}` : 'Install',
+                    command: 'pydep-pilot.addPackage',
+                    arguments: [`${requirement.name}${requirement.specifier}`],
+                }));
+            }
+
+            // Only exact pins have something to update, ranges already follow new releases
+            const pin = /^===?([^,*]+)$/.exec(requirement.specifier);
+            if (!pin) {
+                return;
+            }
+            const latest = await this.pip.checkPackageLatestVersion(requirement.name, token).catch(() => null);
+            if (latest && utils.isNewerVersion(latest.version, pin[1])) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: `Update pin to ${latest.version}`,
+                    command: UPDATE_PIN_COMMAND,
+                    arguments: [document.uri, requirement.line, requirement.specifierStart, requirement.specifierEnd, `==${latest.version}`],
+                }));
+            }
+        }));
+        return lenses.sort((a, b) => a.range.start.line - b.range.start.line || a.command!.title.localeCompare(b.command!.title));
+    }
+
+    async updatePin(uri: vscode.Uri, line: number, start: number, end: number, specifier: string) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, new vscode.Range(line, start, line, end), specifier);
+        await vscode.workspace.applyEdit(edit);
+    }
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { createDecorator, InstantiationService, ServiceCollection } from '@/common/ioc';
+import { IExtensionContext, IOutputChannel } from '@/interface/common';
+
+export const POLICY_FILE_NAME = '.pydep-pilot.json';
+
+export interface UpdatePolicyRule {
+    /** Specifier the package must stay within, e.g. `<2` */
+    pin?: string;
+    /** Never check or offer updates */
+    ignore?: boolean;
+    /** Largest kind of update to offer */
+    cap?: 'minor' | 'patch';
+    reason?: string;
+}
+
+/**
+ * What the webview shows for a package the policy applies to
+ */
+export interface PackagePolicy {
+    type: 'pin' | 'cap' | 'ignore';
+    /** Specifier derived from the rule for the installed version */
+    specifier?: string;
+    reason?: string;
+}
+
+export interface IUpdatePolicy {
+    readonly onDidChange: vscode.Event<void>;
+    getRule(packageName: string): UpdatePolicyRule | undefined;
+    getPolicy(packageName: string, installedVersion: string): PackagePolicy | undefined;
+}
+
+export const IUpdatePolicy = createDecorator<IUpdatePolicy>('updatePolicy');
+
+/**
+ * Turn a rule into the specifier that update candidates must satisfy.
+ * A pin may repeat the package name (`numpy<2`), a cap is relative to the installed version.
+ */
+export function getPolicySpecifier(packageName: string, rule: UpdatePolicyRule, installedVersion: string): string | undefined {
+    const specifiers: string[] = [];
+    if (rule.pin) {
+        const pin = rule.pin.trim();
+        const name = /^[A-Za-z0-9][A-Za-z0-9._-]*/.exec(pin)?.[0];
+        specifiers.push(name && utils.normalizePackageName(name) === utils.normalizePackageName(packageName)
+            ? pin.slice(name.length).trim()
+            : pin);
+    }
+    const installed = utils.parseVersion(installedVersion);
+    if (rule.cap && installed) {
+        const epoch = installed.epoch ? `${installed.epoch}!` : '';
+        const [major = 0, minor = 0] = installed.release;
+        specifiers.push(rule.cap === 'minor' ? `==${epoch}${major}.*` : `==${epoch}${major}.${minor}.*`);
+    }
+    return specifiers.length ? specifiers.join(',') : undefined;
+}
+
+/**
+ * Workspace pin / ignore / cap rules from the `pydep-pilot.updatePolicy` setting
+ * and `.pydep-pilot.json` files in the workspace folders. File rules win.
+ */
+export class UpdatePolicy implements IUpdatePolicy {
+    private rules = new Map<string, UpdatePolicyRule>();
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        @IOutputChannel private readonly output: IOutputChannel,
+        @IExtensionContext private readonly context: IExtensionContext,
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${POLICY_FILE_NAME}`);
+        const reload = () => this.reload();
+        this.context.subscriptions.push(
+            this._onDidChange,
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('pydep-pilot.updatePolicy')) {
+                    reload();
+                }
+            }),
+        );
+        this.reload();
+    }
+
+    static Create(instantiation: InstantiationService, service?: ServiceCollection) {
+        const instance = instantiation.createInstance<IUpdatePolicy>(this);
+        if (service) {
+            service.set(IUpdatePolicy, instance);
+        }
+        return instance;
+    }
+
+    private async readPolicyFiles() {
+        const rules: Record<string, UpdatePolicyRule> = {};
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, POLICY_FILE_NAME);
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+                Object.assign(rules, JSON.parse(content)?.updatePolicy || {});
+            } catch (err: any) {
+                if (!(err instanceof vscode.FileSystemError)) {
+                    this.output.appendLine(`Ignoring ${uri.fsPath}: ${err?.message || err}`);
+                }
+            }
+        }
+        return rules;
+    }
+
+    async reload() {
+        const config = vscode.workspace.getConfiguration('pydep-pilot');
+        const settingRules = config.get<Record<string, UpdatePolicyRule>>('updatePolicy', {});
+        const fileRules = await this.readPolicyFiles();
+
+        this.rules.clear();
+        for (const [name, rule] of Object.entries({ ...settingRules, ...fileRules })) {
+            if (rule && typeof rule === 'object') {
+                this.rules.set(utils.normalizePackageName(name), rule);
+            }
+        }
+        this._onDidChange.fire();
+    }
+
+    getRule(packageName: string) {
+        return this.rules.get(utils.normalizePackageName(packageName));
+    }
+
+    getPolicy(packageName: string, installedVersion: string): PackagePolicy | undefined {
+        const rule = this.getRule(packageName);
+        if (!rule) {
+            return undefined;
+        }
+        if (rule.ignore) {
+            return { type: 'ignore', reason: rule.reason };
+        }
+        const specifier = getPolicySpecifier(packageName, rule, installedVersion);
+        if (!specifier) {
+            return undefined;
+        }
+        return { type: rule.pin ? 'pin' : 'cap', specifier, reason: rule.reason };
+    }
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { PackageVersionInfo } from '../PackageManager';
+import { BackendContext, BackendId, InstallRequest, InterpreterInfo, PackageBackend, ReportedInstall } from './PackageBackend';
+
+/** Channel conda reports for distributions that pip installed into the environment */
+export const CONDA_PIP_CHANNEL = 'pypi';
+
+interface CondaListEntry {
+    name: string;
+    version: string;
+    channel: string;
+}
+
+export function isCondaEnvironment(interpreter: InterpreterInfo) {
+    return fs.existsSync(path.join(interpreter.prefix, 'conda-meta'));
+}
+
+/**
+ * Conda-aware mode for interpreters that live in a conda environment.
+ * Conda packages are managed with conda, packages that pip installed are left to pip.
+ */
+export class CondaBackend implements PackageBackend {
+    readonly id: BackendId = 'conda';
+    /** Normalized names of the packages pip installed */
+    private pipInstalled = new Set<string>();
+
+    constructor(
+        private readonly ctx: BackendContext,
+        private readonly pip: PackageBackend,
+    ) { }
+
+    private get condaExecutable() {
+        const [command] = this.ctx.execCommand();
+        if (command && /^(conda|mamba|micromamba)(\.exe|\.bat)?$/i.test(path.basename(command))) {
+            return command;
+        }
+        return process.env.CONDA_EXE || 'conda';
+    }
+
+    private async conda(args: string[], cancelToken?: vscode.CancellationToken, showErrorMessage?: boolean) {
+        const { prefix } = await this.ctx.interpreter();
+        return this.ctx.execute(this.condaExecutable, args.concat(['--prefix', prefix]), { cancelToken, showErrorMessage });
+    }
+
+    async list(): Promise<PackageVersionInfo[]> {
+        const output = await this.conda(['list', '--json']);
+        let entries: CondaListEntry[];
+        try {
+            entries = JSON.parse(output);
+        } catch (e) {
+            throw new Error(`Get package failed, please run "conda list --json" to check the environment: ${e}`);
+        }
+        this.pipInstalled = new Set(entries.filter((entry) => entry.channel === CONDA_PIP_CHANNEL).map((entry) => utils.normalizePackageName(entry.name)));
+        return entries.map(({ name, version, channel }) => ({ name, version, channel }));
+    }
+
+    listOutdated(): Promise<PackageVersionInfo[]> {
+        return this.pip.listOutdated();
+    }
+
+    async add(specs: string[], cancelToken?: vscode.CancellationToken) {
+        await this.conda(['install', '--yes'].concat(specs), cancelToken);
+    }
+
+    private isPipInstalled(name: string) {
+        return this.pipInstalled.has(utils.normalizePackageName(name));
+    }
+
+    async update(specs: string[], cancelToken?: vscode.CancellationToken) {
+        const fromPip = specs.filter((spec) => this.isPipInstalled(spec.split('==')[0]));
+        const fromConda = specs.filter((spec) => !fromPip.includes(spec));
+        if (fromPip.length) {
+            await this.pip.update(fromPip, cancelToken);
+        }
+        if (fromConda.length) {
+            // `conda update` only takes names, an explicit version needs `conda install`
+            const hasVersion = fromConda.some((spec) => spec.includes('=='));
+            await this.conda([hasVersion ? 'install' : 'update', '--yes'].concat(fromConda), cancelToken);
+        }
+    }
+
+    async remove(names: string[]) {
+        const fromPip = names.filter((name) => this.isPipInstalled(name));
+        const fromConda = names.filter((name) => !this.isPipInstalled(name));
+        if (fromPip.length) {
+            await this.pip.remove(fromPip);
+        }
+        if (fromConda.length) {
+            await this.conda(['remove', '--yes'].concat(fromConda));
+        }
+    }
+
+    installRequirements(filePath: string, cancelToken?: vscode.CancellationToken) {
+        return this.pip.installRequirements(filePath, cancelToken);
+    }
+
+    freeze(): Promise<string> {
+        return this.pip.freeze();
+    }
+
+    async previewInstall(request: InstallRequest, cancelToken?: vscode.CancellationToken): Promise<ReportedInstall[] | undefined> {
+        // Only requirements files go through pip, conda's solver has no comparable report
+        if (request.type !== 'requirements' || !this.pip.previewInstall) {
+            return undefined;
+        }
+        return this.pip.previewInstall(request, cancelToken);
+    }
+}
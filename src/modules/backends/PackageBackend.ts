@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PackageVersionInfo } from '../PackageManager';
+import { PipIndexes } from '../IndexRegistry';
+
+export type BackendId = 'pip' | 'uv' | 'poetry' | 'conda' | 'pipenv';
+
+export interface ExecuteOptions {
+    cancelToken?: vscode.CancellationToken;
+    showErrorMessage?: boolean;
+    cwd?: string;
+    /** Variables added to the environment of the process, kept off its command line */
+    env?: Record<string, string>;
+}
+
+export interface InterpreterInfo {
+    /** sys.executable of the interpreter */
+    executable: string;
+    /** sys.prefix, the root of the environment */
+    prefix: string;
+    /** platform.python_version(), e.g. `3.12.1` */
+    version: string;
+}
+
+/**
+ * What a backend needs from PackageManager to run commands against the
+ * selected interpreter.
+ */
+export interface BackendContext {
+    /** Command that runs the selected interpreter, e.g. `['conda', 'run', 'python']` */
+    execCommand(): string[];
+    interpreter(): Promise<InterpreterInfo>;
+    /** Configured indexes for an install of `packageNames`, or every index for commands that only read */
+    indexes(packageNames?: string[]): Promise<PipIndexes>;
+    execute(command: string, args: string[], options?: ExecuteOptions): Promise<string>;
+    /** Ask before a change the user may not expect, true when they chose `action` */
+    confirm(message: string, detail: string, action: string): Promise<boolean>;
+}
+
+/** An install the user asked for, in the shape the preview and the backend both understand */
+export type InstallRequest =
+    | { type: 'add' | 'update'; specs: string[] }
+    | { type: 'requirements'; filePath: string };
+
+/** A distribution an installation report says would be installed */
+export interface ReportedInstall {
+    name: string;
+    version: string;
+    /** Named on the command line or in the requirements file, rather than pulled in as a dependency */
+    requested: boolean;
+}
+
+export interface PackageBackend {
+    readonly id: BackendId;
+    list(): Promise<PackageVersionInfo[]>;
+    listOutdated(): Promise<PackageVersionInfo[]>;
+    add(specs: string[], cancelToken?: vscode.CancellationToken): Promise<void>;
+    update(specs: string[], cancelToken?: vscode.CancellationToken): Promise<void>;
+    remove(names: string[]): Promise<void>;
+    installRequirements(filePath: string, cancelToken?: vscode.CancellationToken): Promise<void>;
+    freeze(): Promise<string>;
+    /** What an install would do without doing it, undefined when the tool cannot report it */
+    previewInstall?(request: InstallRequest, cancelToken?: vscode.CancellationToken): Promise<ReportedInstall[] | undefined>;
+}
+
+function realPath(p: string) {
+    try {
+        return fs.realpathSync(p);
+    } catch {
+        return path.resolve(p);
+    }
+}
+
+/**
+ * Whether a project tool, run in `folder`, names the interpreter's environment as the project's virtualenv,
+ * e.g. `poetry env info -p` or `pipenv --venv`. A missing tool or a project without an env counts as no.
+ */
+export async function isProjectEnvironment(ctx: BackendContext, folder: string, command: string, args: string[]): Promise<boolean> {
+    try {
+        const [output, { prefix }] = await Promise.all([ctx.execute(command, args, { cwd: folder, showErrorMessage: false }), ctx.interpreter()]);
+        // Only the last line is the path, pipenv may print notices before it
+        const venv = output.split('\n').map((line) => line.trim()).filter(Boolean).pop();
+        if (!venv) {
+            return false;
+        }
+        const [a, b] = [realPath(venv), realPath(prefix)];
+        return process.platform === 'win32' ? a.toLowerCase() === b.toLowerCase() : a === b;
+    } catch {
+        return false;
+    }
+}
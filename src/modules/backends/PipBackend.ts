@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { PackageVersionInfo } from '../PackageManager';
+import { PipIndexes } from '../IndexRegistry';
+import { requirementsFileNames } from '../Manifests';
+import { BackendContext, BackendId, InstallRequest, PackageBackend, ReportedInstall } from './PackageBackend';
+
+export class PipBackend implements PackageBackend {
+    readonly id: BackendId = 'pip';
+
+    constructor(protected readonly ctx: BackendContext) { }
+
+    /**
+     * Build the command line that runs `pip <args>` for the selected interpreter
+     */
+    protected async command(args: string[]): Promise<[string, string[]]> {
+        const [python, ...pythonArgs] = this.ctx.execCommand();
+        return [python, pythonArgs.concat(['-m', 'pip'], args)];
+    }
+
+    protected async pip(args: string[], cancelToken?: vscode.CancellationToken, showErrorMessage = true, env?: Record<string, string>) {
+        const [command, commandArgs] = await this.command(args);
+        return this.ctx.execute(command, commandArgs, { cancelToken, showErrorMessage, env });
+    }
+
+    /** Environment variables the tool reads its index URLs from */
+    protected readonly indexVariables = { index: 'PIP_INDEX_URL', extra: 'PIP_EXTRA_INDEX_URL' };
+
+    /**
+     * Variables that point pip at the configured indexes. Unlike the command line, the environment
+     * of a process is not visible to other users of the machine, so credentials stay there.
+     * Undefined without configured indexes, pip then follows its own configuration.
+     */
+    protected indexEnv(indexes: PipIndexes): Record<string, string> | undefined {
+        const env: Record<string, string> = {};
+        if (indexes.indexUrl) {
+            env[this.indexVariables.index] = indexes.indexUrl;
+        }
+        if (indexes.extraIndexUrls.length) {
+            env[this.indexVariables.extra] = indexes.extraIndexUrls.join(' ');
+        }
+        return Object.keys(env).length ? env : undefined;
+    }
+
+    /**
+     * Run pip against the configured indexes. Installs name their packages so scoped indexes only serve
+     * their own, commands that only read leave them out to use every index.
+     */
+    protected async pipWithSource(args: string[], cancelToken?: vscode.CancellationToken, showErrorMessage?: boolean, packageNames?: string[]) {
+        return this.pip(args, cancelToken, showErrorMessage, this.indexEnv(await this.ctx.indexes(packageNames)));
+    }
+
+    /**
+     * Names of the packages an install asks for, specs that are paths or URLs have none
+     */
+    protected async requestedNames(request: InstallRequest): Promise<string[]> {
+        if (request.type === 'requirements') {
+            return requirementsFileNames(request.filePath);
+        }
+        return request.specs.flatMap((spec) => utils.parseRequirement(spec)?.name || []);
+    }
+
+    protected tryParsePipListJson(packages: string) {
+        try {
+            return JSON.parse(packages.replace(/\n/g, ""));
+        } catch(e) {
+            throw new Error(`Get package failed, please run "pip list --format json" or "pip3 list --format json" check pip support json format: ${e}`);
+        }
+    }
+
+    protected async install(request: InstallRequest, cancelToken?: vscode.CancellationToken) {
+        return this.pipWithSource(['install', '-U'].concat(this.installArgs(request)), cancelToken, undefined, await this.requestedNames(request));
+    }
+
+    protected installArgs(request: InstallRequest) {
+        if (request.type === 'requirements') {
+            return ['-r', request.filePath];
+        }
+        return (request.type === 'update' ? ['--upgrade'] : []).concat(request.specs);
+    }
+
+    async list(): Promise<PackageVersionInfo[]> {
+        const packages = await this.pip(['list', '--format', 'json']);
+        return this.tryParsePipListJson(packages);
+    }
+
+    async listOutdated(): Promise<PackageVersionInfo[]> {
+        const updates = await this.pipWithSource(['list', '--outdated', '--format', 'json']);
+        return this.tryParsePipListJson(updates);
+    }
+
+    async add(specs: string[], cancelToken?: vscode.CancellationToken) {
+        await this.install({ type: 'add', specs }, cancelToken);
+    }
+
+    async update(specs: string[], cancelToken?: vscode.CancellationToken) {
+        await this.install({ type: 'update', specs }, cancelToken);
+    }
+
+    async installRequirements(filePath: string, cancelToken?: vscode.CancellationToken) {
+        await this.install({ type: 'requirements', filePath }, cancelToken);
+    }
+
+    async remove(names: string[]) {
+        await this.pip(['uninstall'].concat(names, ['-y']));
+    }
+
+    /**
+     * Resolve without installing and read pip's installation report (pip 22.2+).
+     * Undefined on older pip, which rejects the options as a usage error before resolving anything.
+     */
+    async previewInstall(request: InstallRequest, cancelToken?: vscode.CancellationToken): Promise<ReportedInstall[] | undefined> {
+        const args = ['install', '-U', '--dry-run', '--quiet', '--report', '-'].concat(this.installArgs(request));
+        let output: string;
+        try {
+            output = await this.pipWithSource(args, cancelToken, false, await this.requestedNames(request));
+        } catch (err: any) {
+            if (err?.code === 2 && /no such option: --(dry-run|report)/.test(err?.message || '')) {
+                return undefined;
+            }
+            throw err;
+        }
+        let report: any;
+        try {
+            report = JSON.parse(output);
+        } catch (e) {
+            throw new Error(`Could not read the installation report of "pip install --dry-run --report -": ${e}`);
+        }
+        const installs: any[] = Array.isArray(report?.install) ? report.install : [];
+        return installs
+            .filter((item) => item?.metadata?.name && item.metadata.version)
+            .map((item) => ({ name: item.metadata.name, version: item.metadata.version, requested: !!item.requested }));
+    }
+
+    async freeze(): Promise<string> {
+        const output = await this.pip(['freeze']);
+        return output.trim();
+    }
+}
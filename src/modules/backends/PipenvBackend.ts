@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { PackageVersionInfo } from '../PackageManager';
+import { BackendContext, BackendId, InterpreterInfo, PackageBackend, isProjectEnvironment } from './PackageBackend';
+
+/**
+ * Find the Pipfile project of an interpreter. Pipenv records the project of
+ * centrally stored virtualenvs in `<prefix>/.project`, in-project envs sit next to the Pipfile.
+ * A workspace folder's Pipfile only counts when `pipenv --venv` there names the interpreter's environment.
+ */
+export async function findPipenvProject(ctx: BackendContext, interpreter: InterpreterInfo, workspaceFolders: string[]): Promise<string | undefined> {
+    const candidates: string[] = [];
+    try {
+        candidates.push(fs.readFileSync(path.join(interpreter.prefix, '.project'), 'utf-8').trim());
+    } catch {
+        // Not a centrally stored pipenv virtualenv
+    }
+    candidates.push(path.dirname(interpreter.prefix));
+    const own = candidates.find((dir) => dir && hasPipfile(dir));
+    if (own) {
+        return own;
+    }
+    for (const folder of workspaceFolders.filter(hasPipfile)) {
+        if (await isProjectEnvironment(ctx, folder, 'pipenv', ['--venv'])) {
+            return folder;
+        }
+    }
+    return undefined;
+}
+
+export function hasPipfile(dir: string) {
+    return fs.existsSync(path.join(dir, 'Pipfile'));
+}
+
+/**
+ * Project mode for Pipfile workspaces.
+ * Changes go through `pipenv` so Pipfile and Pipfile.lock stay in sync.
+ */
+export class PipenvBackend implements PackageBackend {
+    readonly id: BackendId = 'pipenv';
+
+    constructor(
+        private readonly ctx: BackendContext,
+        private readonly env: PackageBackend,
+        private readonly projectRoot: string,
+    ) { }
+
+    private pipenv(args: string[], cancelToken?: vscode.CancellationToken) {
+        return this.ctx.execute('pipenv', args, { cancelToken, cwd: this.projectRoot });
+    }
+
+    /**
+     * Names of the packages in the default and develop sections of Pipfile.lock
+     */
+    private readLockedPackages() {
+        try {
+            const lock = JSON.parse(fs.readFileSync(path.join(this.projectRoot, 'Pipfile.lock'), 'utf-8'));
+            return {
+                default: new Set(Object.keys(lock.default || {}).map(utils.normalizePackageName)),
+                develop: new Set(Object.keys(lock.develop || {}).map(utils.normalizePackageName)),
+            };
+        } catch {
+            return { default: new Set<string>(), develop: new Set<string>() };
+        }
+    }
+
+    async list(): Promise<PackageVersionInfo[]> {
+        const packages = await this.env.list();
+        const locked = this.readLockedPackages();
+        // Packages installed outside the lock file belong to neither section and stay untagged
+        return packages.map((pack) => {
+            const name = utils.normalizePackageName(pack.name);
+            if (locked.develop.has(name)) {
+                return { ...pack, group: 'dev' };
+            }
+            return locked.default.has(name) ? { ...pack, group: 'default' } : pack;
+        });
+    }
+
+    listOutdated(): Promise<PackageVersionInfo[]> {
+        return this.env.listOutdated();
+    }
+
+    async add(specs: string[], cancelToken?: vscode.CancellationToken) {
+        await this.pipenv(['install'].concat(specs), cancelToken);
+    }
+
+    async update(specs: string[], cancelToken?: vscode.CancellationToken) {
+        // `pipenv update` only takes names, so an explicit version is re-installed instead
+        const pinned = specs.filter((spec) => spec.includes('=='));
+        const names = specs.filter((spec) => !spec.includes('=='));
+        if (pinned.length) {
+            await this.pipenv(['install'].concat(pinned), cancelToken);
+        }
+        if (names.length) {
+            await this.pipenv(['update'].concat(names), cancelToken);
+        }
+    }
+
+    async remove(names: string[]) {
+        await this.pipenv(['uninstall'].concat(names));
+    }
+
+    async installRequirements(filePath: string, cancelToken?: vscode.CancellationToken) {
+        await this.pipenv(['install', '-r', filePath], cancelToken);
+    }
+
+    async sync(cancelToken?: vscode.CancellationToken) {
+        await this.pipenv(['sync', '--dev'], cancelToken);
+    }
+
+    freeze(): Promise<string> {
+        return this.env.freeze();
+    }
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { PackageVersionInfo } from '../PackageManager';
+import { parsePyprojectDependencies } from '../Manifests';
+import { BackendContext, BackendId, PackageBackend } from './PackageBackend';
+
+/**
+ * Project mode for workspaces managed by Poetry.
+ * Changes go through `poetry` so pyproject.toml and poetry.lock stay in sync,
+ * while listing is left to the environment backend.
+ */
+export class PoetryBackend implements PackageBackend {
+    readonly id: BackendId = 'poetry';
+
+    constructor(
+        private readonly ctx: BackendContext,
+        private readonly env: PackageBackend,
+        private readonly projectRoot: string,
+    ) { }
+
+    private poetry(args: string[], cancelToken?: vscode.CancellationToken, showErrorMessage?: boolean) {
+        return this.ctx.execute('poetry', args.concat(['--no-interaction']), { cancelToken, showErrorMessage, cwd: this.projectRoot });
+    }
+
+    list(): Promise<PackageVersionInfo[]> {
+        return this.env.list();
+    }
+
+    listOutdated(): Promise<PackageVersionInfo[]> {
+        return this.env.listOutdated();
+    }
+
+    async add(specs: string[], cancelToken?: vscode.CancellationToken) {
+        await this.poetry(['add'].concat(specs), cancelToken);
+    }
+
+    /**
+     * Normalized names of the dependencies pyproject.toml declares
+     */
+    private readDeclaredPackages() {
+        try {
+            const text = fs.readFileSync(path.join(this.projectRoot, 'pyproject.toml'), 'utf-8');
+            return new Set(parsePyprojectDependencies(text).map((requirement) => utils.normalizePackageName(requirement.name)));
+        } catch {
+            return new Set<string>();
+        }
+    }
+
+    async update(specs: string[], cancelToken?: vscode.CancellationToken) {
+        // `poetry update` stays within the constraints of pyproject.toml and only takes names.
+        // An explicit version needs `poetry add`, which rewrites a constraint or declares a dependency, so ask first.
+        const names = specs.filter((spec) => !spec.includes('=='));
+        const pinned = specs.filter((spec) => spec.includes('=='));
+        if (pinned.length) {
+            const declared = this.readDeclaredPackages();
+            const detail = pinned.map((spec) => {
+                const [name, version] = spec.split('==');
+                return declared.has(utils.normalizePackageName(name))
+                    ? `${name}: constraint becomes ==${version}`
+                    : `${name}: added as a dependency at ==${version}`;
+            }).join('\n');
+            const rewrite = await this.ctx.confirm(
+                'Installing these versions changes pyproject.toml. Otherwise they are updated within the current constraints.',
+                detail,
+                'Change pyproject.toml'
+            );
+            if (rewrite) {
+                await this.poetry(['add'].concat(pinned), cancelToken);
+            } else {
+                names.push(...pinned.map((spec) => spec.split('==')[0]));
+            }
+        }
+        if (names.length) {
+            await this.poetry(['update'].concat(names), cancelToken);
+        }
+    }
+
+    async remove(names: string[]) {
+        // `poetry remove` fails on anything pyproject.toml does not declare, such as a dependency of a dependency
+        const declared = this.readDeclaredPackages();
+        const fromProject = names.filter((name) => declared.has(utils.normalizePackageName(name)));
+        const fromEnv = names.filter((name) => !declared.has(utils.normalizePackageName(name)));
+        if (fromProject.length) {
+            await this.poetry(['remove'].concat(fromProject));
+        }
+        if (fromEnv.length) {
+            await this.env.remove(fromEnv);
+        }
+    }
+
+    installRequirements(filePath: string, cancelToken?: vscode.CancellationToken) {
+        return this.env.installRequirements(filePath, cancelToken);
+    }
+
+    /**
+     * Locked dependencies from `poetry export`. Poetry 2 no longer ships the command, without
+     * poetry-plugin-export the installed packages are exported from the environment instead.
+     */
+    async freeze(): Promise<string> {
+        let output: string;
+        try {
+            output = await this.poetry(['export', '--format', 'requirements.txt', '--without-hashes'], undefined, false);
+        } catch (err: any) {
+            if (/command "?export"? (does not exist|is not defined)/i.test(err?.message || '')) {
+                return this.env.freeze();
+            }
+            throw err;
+        }
+        return output.trim();
+    }
+}
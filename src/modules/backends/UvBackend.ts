@@ -0,0 +1,32 @@
+import { BackendId, InstallRequest, ReportedInstall } from './PackageBackend';
+import { PipBackend } from './PipBackend';
+
+/**
+ * Runs the pip-compatible interface of uv (`uv pip ...`) against the selected interpreter
+ */
+export class UvBackend extends PipBackend {
+    readonly id: BackendId = 'uv';
+
+    protected async command(args: string[]): Promise<[string, string[]]> {
+        const { executable } = await this.ctx.interpreter();
+        return ['uv', ['pip'].concat(args, ['--python', executable])];
+    }
+
+    // uv does not read pip's variables
+    protected readonly indexVariables = { index: 'UV_INDEX_URL', extra: 'UV_EXTRA_INDEX_URL' };
+
+    protected installArgs(request: InstallRequest) {
+        // `install` already passes -U and uv rejects the flag twice
+        return request.type === 'requirements' ? ['-r', request.filePath] : request.specs;
+    }
+
+    async previewInstall(): Promise<ReportedInstall[] | undefined> {
+        // uv pip has no installation report, its dry run only prints a summary for people
+        return undefined;
+    }
+
+    async remove(names: string[]) {
+        // uv never prompts, so there is no -y flag
+        await this.pip(['uninstall'].concat(names));
+    }
+}
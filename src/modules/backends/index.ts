@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as utils from '@/utils';
+import { BackendContext, BackendId, PackageBackend, isProjectEnvironment } from './PackageBackend';
+import { PipBackend } from './PipBackend';
+import { UvBackend } from './UvBackend';
+import { PoetryBackend } from './PoetryBackend';
+import { CondaBackend, isCondaEnvironment } from './CondaBackend';
+import { PipenvBackend, findPipenvProject, hasPipfile } from './PipenvBackend';
+
+export * from './PackageBackend';
+export { PipBackend } from './PipBackend';
+export { UvBackend } from './UvBackend';
+export { PoetryBackend } from './PoetryBackend';
+export { CondaBackend, CONDA_PIP_CHANNEL, isCondaEnvironment } from './CondaBackend';
+export { PipenvBackend, findPipenvProject } from './PipenvBackend';
+
+export type BackendSetting = 'auto' | BackendId;
+
+function workspaceFolderPaths() {
+    return (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
+}
+
+function workspaceHasFile(fileName: string) {
+    return workspaceFolderPaths().some((folder) => fs.existsSync(path.join(folder, fileName)));
+}
+
+function isPoetryProject(folder: string) {
+    try {
+        const pyproject = fs.readFileSync(path.join(folder, 'pyproject.toml'), 'utf-8');
+        return /^\s*\[tool\.poetry\]/m.test(pyproject);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find the workspace folder whose pyproject.toml has a [tool.poetry] table and whose
+ * poetry env, per `poetry env info -p`, is the interpreter's environment
+ */
+export async function findPoetryProject(ctx: BackendContext, workspaceFolders: string[]): Promise<string | undefined> {
+    for (const folder of workspaceFolders.filter(isPoetryProject)) {
+        if (await isProjectEnvironment(ctx, folder, 'poetry', ['env', 'info', '-p'])) {
+            return folder;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Pick the environment backend for the `pydep-pilot.packageManager` setting.
+ * In auto mode uv wins when it is installed or the workspace is locked with it.
+ */
+function resolveEnvironmentBackendId(setting: BackendSetting): BackendId {
+    if (setting === 'pip' || setting === 'uv') {
+        return setting;
+    }
+    if (utils.isCommandOnPath('uv') || workspaceHasFile('uv.lock')) {
+        return 'uv';
+    }
+    return 'pip';
+}
+
+async function createEnvironmentBackend(setting: BackendSetting, ctx: BackendContext): Promise<PackageBackend> {
+    const pip = resolveEnvironmentBackendId(setting) === 'uv' ? new UvBackend(ctx) : new PipBackend(ctx);
+    if (setting === 'conda') {
+        return new CondaBackend(ctx, pip);
+    }
+    if (setting === 'auto') {
+        try {
+            if (isCondaEnvironment(await ctx.interpreter())) {
+                return new CondaBackend(ctx, pip);
+            }
+        } catch {
+            // Interpreter could not be inspected, pip reports the real error later
+        }
+    }
+    return pip;
+}
+
+export async function createBackend(setting: BackendSetting, ctx: BackendContext): Promise<PackageBackend> {
+    const env = await createEnvironmentBackend(setting, ctx);
+
+    if (setting === 'auto' || setting === 'poetry') {
+        // Asked for poetry, any Poetry project in the workspace is the project
+        const poetryRoot = setting === 'poetry'
+            ? workspaceFolderPaths().find(isPoetryProject) || workspaceFolderPaths()[0]
+            : await findPoetryProject(ctx, workspaceFolderPaths());
+        if (poetryRoot) {
+            return new PoetryBackend(ctx, env, poetryRoot);
+        }
+    }
+    if (setting === 'auto' || setting === 'pipenv') {
+        let pipenvRoot: string | undefined;
+        try {
+            pipenvRoot = await findPipenvProject(ctx, await ctx.interpreter(), workspaceFolderPaths());
+        } catch {
+            // Interpreter could not be inspected, fall back to the workspace
+        }
+        // Asked for pipenv, any Pipfile in the workspace is the project
+        if (!pipenvRoot && setting === 'pipenv') {
+            pipenvRoot = workspaceFolderPaths().find(hasPipfile) || workspaceFolderPaths()[0];
+        }
+        if (pipenvRoot) {
+            return new PipenvBackend(ctx, env, pipenvRoot);
+        }
+    }
+    return env;
+}
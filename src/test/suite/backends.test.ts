@@ -0,0 +1,244 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PipIndexes } from '@/modules/IndexRegistry';
+import { BackendContext, CondaBackend, PipBackend, PipenvBackend, PoetryBackend, UvBackend, createBackend, findPipenvProject, findPoetryProject } from '@/modules/backends';
+
+interface FakeContextOptions {
+	prefix?: string;
+	/** Index URLs the user configured, a main index and a mirror by default */
+	indexes?: PipIndexes;
+	/** Output of a command line, or an error to fail it with */
+	respond?: (commandLine: string[]) => string | Error;
+	/** What the user answers when a backend asks */
+	confirm?: boolean;
+}
+
+/**
+ * Backend context that records the command lines a backend runs instead of running them
+ */
+function fakeContext(options: FakeContextOptions = {}) {
+	const calls: string[][] = [];
+	const envs: (Record<string, string> | undefined)[] = [];
+	const cwds: (string | undefined)[] = [];
+	const confirmations: string[] = [];
+	const ctx: BackendContext = {
+		execCommand: () => ['python'],
+		interpreter: async () => ({ executable: '/env/bin/python', prefix: options.prefix || '/env', version: '3.12.1' }),
+		indexes: async () => options.indexes || { indexUrl: 'https://pypi.org/simple', extraIndexUrls: ['https://mirror.example.com/simple'] },
+		execute: async (command, args, executeOptions) => {
+			const commandLine = [command, ...args];
+			calls.push(commandLine);
+			envs.push(executeOptions?.env);
+			cwds.push(executeOptions?.cwd);
+			const response = options.respond?.(commandLine) ?? '';
+			if (response instanceof Error) {
+				throw response;
+			}
+			return response;
+		},
+		confirm: async (message, detail) => {
+			confirmations.push(detail);
+			return options.confirm ?? false;
+		},
+	};
+	return { ctx, calls, envs, cwds, confirmations };
+}
+
+suite('Backends Test Suite', () => {
+	let dir = '';
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pydep-pilot-backends-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('pip: installs with the indexes in the environment and removes with -y', async () => {
+		const { ctx, calls, envs } = fakeContext();
+		const backend = new PipBackend(ctx);
+		await backend.update(['requests']);
+		await backend.remove(['requests']);
+		assert.deepStrictEqual(calls, [
+			['python', '-m', 'pip', 'install', '-U', '--upgrade', 'requests'],
+			['python', '-m', 'pip', 'uninstall', 'requests', '-y'],
+		]);
+		assert.deepStrictEqual(envs, [
+			{ PIP_INDEX_URL: 'https://pypi.org/simple', PIP_EXTRA_INDEX_URL: 'https://mirror.example.com/simple' },
+			undefined,
+		]);
+	});
+
+	test('uv: targets the interpreter with --python and never passes -y', async () => {
+		const { ctx, calls, envs } = fakeContext();
+		const backend = new UvBackend(ctx);
+		await backend.update(['requests']);
+		await backend.remove(['requests']);
+		assert.deepStrictEqual(calls, [
+			['uv', 'pip', 'install', '-U', 'requests', '--python', '/env/bin/python'],
+			['uv', 'pip', 'uninstall', 'requests', '--python', '/env/bin/python'],
+		]);
+		assert.deepStrictEqual(envs[0], { UV_INDEX_URL: 'https://pypi.org/simple', UV_EXTRA_INDEX_URL: 'https://mirror.example.com/simple' });
+	});
+
+	test('indexes: without configured indexes pip and uv follow their own configuration', async () => {
+		const extraOnly = fakeContext({ indexes: { extraIndexUrls: ['https://pypi.acme.internal/simple'] } });
+		await new PipBackend(extraOnly.ctx).add(['requests']);
+		assert.deepStrictEqual(extraOnly.envs, [{ PIP_EXTRA_INDEX_URL: 'https://pypi.acme.internal/simple' }]);
+
+		const unconfigured = fakeContext({ indexes: { extraIndexUrls: [] } });
+		await new PipBackend(unconfigured.ctx).add(['requests']);
+		await new UvBackend(unconfigured.ctx).add(['requests']);
+		assert.deepStrictEqual(unconfigured.envs, [undefined, undefined]);
+	});
+
+	test('poetry: updates within constraints unless the user allows changing pyproject.toml', async () => {
+		fs.writeFileSync(path.join(dir, 'pyproject.toml'), '[tool.poetry.dependencies]\npython = "^3.10"\nrequests = "^2.28"\n');
+		const update = async (confirm: boolean) => {
+			const fake = fakeContext({ confirm });
+			await new PoetryBackend(fake.ctx, new PipBackend(fake.ctx), dir).update(['flask', 'requests==2.31.0', 'urllib3==2.2.1']);
+			assert.ok(fake.cwds.every((cwd) => cwd === dir));
+			assert.deepStrictEqual(fake.confirmations, [
+				'requests: constraint becomes ==2.31.0\nurllib3: added as a dependency at ==2.2.1',
+			]);
+			return fake.calls;
+		};
+		assert.deepStrictEqual(await update(false), [
+			['poetry', 'update', 'flask', 'requests', 'urllib3', '--no-interaction'],
+		]);
+		assert.deepStrictEqual(await update(true), [
+			['poetry', 'add', 'requests==2.31.0', 'urllib3==2.2.1', '--no-interaction'],
+			['poetry', 'update', 'flask', '--no-interaction'],
+		]);
+	});
+
+	test('poetry: removes undeclared packages from the environment', async () => {
+		fs.writeFileSync(path.join(dir, 'pyproject.toml'), '[tool.poetry.dependencies]\npython = "^3.10"\nRequests = "^2.28"\n');
+		const { ctx, calls } = fakeContext();
+		await new PoetryBackend(ctx, new PipBackend(ctx), dir).remove(['requests', 'charset_normalizer']);
+		assert.deepStrictEqual(calls, [
+			['poetry', 'remove', 'requests', '--no-interaction'],
+			['python', '-m', 'pip', 'uninstall', 'charset_normalizer', '-y'],
+		]);
+	});
+
+	test('poetry: exports with pip freeze when the export command is missing', async () => {
+		const { ctx, calls } = fakeContext({
+			respond: ([command, ...args]) => {
+				if (command === 'poetry') {
+					return new Error('The requested command "export" does not exist.');
+				}
+				return args.includes('freeze') ? 'requests==2.31.0\n' : '';
+			},
+		});
+		const backend = new PoetryBackend(ctx, new PipBackend(ctx), dir);
+		assert.strictEqual(await backend.freeze(), 'requests==2.31.0');
+		assert.deepStrictEqual(calls.map(([command]) => command), ['poetry', 'python']);
+	});
+
+	test('conda: packages pip installed stay with pip, the rest go through conda', async () => {
+		const { ctx, calls } = fakeContext({
+			respond: ([command]) => command === 'conda' ? JSON.stringify([
+				{ name: 'numpy', version: '1.26.4', channel: 'conda-forge' },
+				{ name: 'requests', version: '2.28.0', channel: 'pypi' },
+				{ name: 'typing-extensions', version: '4.12.2', channel: 'pypi' },
+			]) : '',
+		});
+		const backend = new CondaBackend(ctx, new PipBackend(ctx));
+		await backend.list();
+		calls.length = 0;
+		await backend.update(['numpy', 'requests', 'Typing_Extensions==4.13.0']);
+		await backend.update(['numpy==2.0.0']);
+		await backend.remove(['numpy', 'requests', 'typing_extensions']);
+		assert.deepStrictEqual(calls, [
+			['python', '-m', 'pip', 'install', '-U', '--upgrade', 'requests', 'Typing_Extensions==4.13.0'],
+			['conda', 'update', '--yes', 'numpy', '--prefix', '/env'],
+			['conda', 'install', '--yes', 'numpy==2.0.0', '--prefix', '/env'],
+			['python', '-m', 'pip', 'uninstall', 'requests', 'typing_extensions', '-y'],
+			['conda', 'remove', '--yes', 'numpy', '--prefix', '/env'],
+		]);
+	});
+
+	test('pipenv: routes changes through pipenv and tags locked packages', async () => {
+		fs.writeFileSync(path.join(dir, 'Pipfile.lock'), JSON.stringify({ default: { requests: {} }, develop: { pytest: {} } }));
+		const { ctx, calls, cwds } = fakeContext({
+			respond: ([, ...args]) => args.includes('list') ? JSON.stringify([
+				{ name: 'requests', version: '2.31.0' },
+				{ name: 'pytest', version: '8.0.0' },
+				{ name: 'leftover', version: '1.0' },
+			]) : '',
+		});
+		const backend = new PipenvBackend(ctx, new PipBackend(ctx), dir);
+		assert.deepStrictEqual((await backend.list()).map((pack) => [pack.name, pack.group]), [
+			['requests', 'default'],
+			['pytest', 'dev'],
+			['leftover', undefined],
+		]);
+		calls.length = 0;
+		cwds.length = 0;
+		await backend.update(['requests==2.32.0', 'pytest']);
+		await backend.remove(['pytest']);
+		assert.deepStrictEqual(calls, [
+			['pipenv', 'install', 'requests==2.32.0'],
+			['pipenv', 'update', 'pytest'],
+			['pipenv', 'uninstall', 'pytest'],
+		]);
+		assert.deepStrictEqual(cwds, [dir, dir, dir]);
+	});
+
+	test('createBackend: an explicit setting picks the environment backend', async () => {
+		const { ctx } = fakeContext({ prefix: dir });
+		assert.strictEqual((await createBackend('pip', ctx)).id, 'pip');
+		assert.strictEqual((await createBackend('uv', ctx)).id, 'uv');
+	});
+
+	test('createBackend: auto detects conda environments', async () => {
+		const { ctx } = fakeContext({ prefix: dir });
+		assert.ok(['pip', 'uv'].includes((await createBackend('auto', ctx)).id));
+		fs.mkdirSync(path.join(dir, 'conda-meta'));
+		assert.strictEqual((await createBackend('auto', ctx)).id, 'conda');
+	});
+
+	test('createBackend: auto detects the Pipfile project of a pipenv virtualenv', async () => {
+		const project = path.join(dir, 'project');
+		const venv = path.join(dir, 'venv');
+		fs.mkdirSync(project);
+		fs.mkdirSync(venv);
+		fs.writeFileSync(path.join(project, 'Pipfile'), '[packages]\n');
+		fs.writeFileSync(path.join(venv, '.project'), project);
+		const { ctx } = fakeContext({ prefix: venv });
+		assert.strictEqual((await createBackend('auto', ctx)).id, 'pipenv');
+	});
+
+	test('pipenv: a workspace Pipfile only counts when pipenv --venv names the interpreter', async () => {
+		const project = path.join(dir, 'project');
+		const venv = path.join(dir, 'envs', 'project-AbCd1234');
+		fs.mkdirSync(project);
+		fs.mkdirSync(venv, { recursive: true });
+		fs.writeFileSync(path.join(project, 'Pipfile'), '[packages]\n');
+		const interpreter = { executable: path.join(venv, 'bin', 'python'), prefix: venv, version: '3.12.1' };
+		const find = (respond: FakeContextOptions['respond']) => {
+			const { ctx } = fakeContext({ prefix: venv, respond });
+			return findPipenvProject(ctx, interpreter, [project]);
+		};
+		assert.strictEqual(await find(() => `Courtesy Notice: ...\n${venv}\n`), project);
+		assert.strictEqual(await find(() => path.join(dir, 'envs', 'other-EfGh5678')), undefined);
+		assert.strictEqual(await find(() => new Error('No virtualenv has been created for this project yet!')), undefined);
+	});
+
+	test('poetry: a Poetry project only counts when its poetry env is the interpreter', async () => {
+		const venv = path.join(dir, 'project', '.venv');
+		fs.mkdirSync(venv, { recursive: true });
+		fs.writeFileSync(path.join(dir, 'project', 'pyproject.toml'), '[tool.poetry]\nname = "demo"\n');
+		const find = (respond: FakeContextOptions['respond']) => {
+			const fake = fakeContext({ prefix: venv, respond });
+			return findPoetryProject(fake.ctx, [dir, path.join(dir, 'project')]).then((root) => ({ root, calls: fake.calls }));
+		};
+		assert.deepStrictEqual(await find(() => `${venv}\n`), { root: path.join(dir, 'project'), calls: [['poetry', 'env', 'info', '-p']] });
+		assert.strictEqual((await find(() => path.join(dir, 'cache', 'demo-py3.12'))).root, undefined);
+		assert.strictEqual((await find(() => new Error('poetry: command not found'))).root, undefined);
+	});
+});
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { BulkUpdateSteps, UpdateTarget, reportBulkUpdate, runBulkUpdate } from '@/modules/BulkUpdate';
+
+/**
+ * Steps that record what ran, failing the combined run or single packages on request
+ */
+function fakeSteps(options: { failAll?: boolean; failOne?: string[]; cancelAfter?: number } = {}) {
+	const calls: string[] = [];
+	let singles = 0;
+	const steps: BulkUpdateSteps = {
+		updateAll: async (specs) => {
+			calls.push(`all ${specs.join(' ')}`);
+			if (options.failAll) {
+				throw new Error('ERROR: ResolutionImpossible\nfor help visit https://pip.pypa.io');
+			}
+		},
+		updateOne: async (name, spec, current, total) => {
+			calls.push(`one ${spec} ${current}/${total}`);
+			singles++;
+			if (options.failOne?.includes(name)) {
+				throw new Error(`\nERROR: No matching distribution found for ${spec}\n`);
+			}
+		},
+		isCancelled: () => options.cancelAfter !== undefined && singles >= options.cancelAfter,
+	};
+	return { steps, calls };
+}
+
+const TARGETS = new Map<string, UpdateTarget>([
+	['requests', 'requests'],
+	['numpy', { held: 'policy' }],
+	['urllib3', 'urllib3==1.26.18'],
+	['flask', 'flask'],
+]);
+
+suite('Bulk Update Test Suite', () => {
+	test('together: one command updates every package the policy allows', async () => {
+		const { steps, calls } = fakeSteps();
+		const result = await runBulkUpdate(TARGETS, true, steps);
+		assert.deepStrictEqual(calls, ['all requests urllib3==1.26.18 flask']);
+		const report = reportBulkUpdate(result, new Map([
+			['requests', { from: '2.28.0', to: '2.31.0' }],
+			['flask', { from: '3.0.0', to: '3.0.0' }],
+		]));
+		assert.deepStrictEqual(report.details, [
+			'Bulk update results:',
+			'  requests: updated 2.28.0 → 2.31.0',
+			'  numpy: held back by the workspace update policy',
+			'  urllib3: updated',
+			'  flask: updated, still at 3.0.0',
+		]);
+		assert.strictEqual(report.message, 'Updated 3 of 4 packages; held back by the workspace update policy: numpy');
+		assert.strictEqual(report.complete, false);
+	});
+
+	test('fallback: a failed combined run updates one at a time and names the failures', async () => {
+		const { steps, calls } = fakeSteps({ failAll: true, failOne: ['urllib3'] });
+		const result = await runBulkUpdate(new Map([...TARGETS].filter(([name]) => name !== 'numpy')), true, steps);
+		assert.deepStrictEqual(calls, [
+			'all requests urllib3==1.26.18 flask',
+			'one requests 1/3',
+			'one urllib3==1.26.18 2/3',
+			'one flask 3/3',
+		]);
+		assert.strictEqual(result.combinedError, 'ERROR: ResolutionImpossible');
+		assert.deepStrictEqual(result.outcomes.get('urllib3'), { status: 'failed', error: 'ERROR: No matching distribution found for urllib3==1.26.18' });
+		assert.strictEqual(
+			reportBulkUpdate(result).message,
+			'Updated 2 of 3 packages; one at a time after resolving them together failed; failed: urllib3'
+		);
+	});
+
+	test('sequential: a cancellation leaves the remaining packages cancelled', async () => {
+		const { steps, calls } = fakeSteps({ cancelAfter: 1 });
+		const result = await runBulkUpdate(TARGETS, false, steps);
+		assert.deepStrictEqual(calls, ['one requests 1/3']);
+		assert.deepStrictEqual([...result.outcomes].map(([name, outcome]) => [name, outcome.status]), [
+			['requests', 'updated'],
+			['numpy', 'held'],
+			['urllib3', 'cancelled'],
+			['flask', 'cancelled'],
+		]);
+		assert.strictEqual(
+			reportBulkUpdate(result).message,
+			'Updated 1 of 4 packages; held back by the workspace update policy: numpy; cancelled: urllib3, flask'
+		);
+	});
+
+	test('single package: nothing to resolve together, every update reported', async () => {
+		const { steps, calls } = fakeSteps();
+		const report = reportBulkUpdate(await runBulkUpdate(new Map([['requests', 'requests']]), true, steps));
+		assert.deepStrictEqual(calls, ['one requests 1/1']);
+		assert.strictEqual(report.message, 'Updated 1 of 1 packages');
+		assert.strictEqual(report.complete, true);
+	});
+
+	test('held: a failed or unfinished check is not reported as the policy holding a package back', async () => {
+		const { steps, calls } = fakeSteps();
+		const result = await runBulkUpdate(new Map<string, UpdateTarget>([
+			['requests', 'requests==2.31.0'],
+			['numpy', { held: 'policy' }],
+			['urllib3', { held: 'checkFailed' }],
+			['flask', { held: 'unchecked' }],
+		]), true, steps);
+		assert.deepStrictEqual(calls, ['one requests==2.31.0 1/1']);
+		const report = reportBulkUpdate(result);
+		assert.deepStrictEqual(report.details.slice(2), [
+			'  numpy: held back by the workspace update policy',
+			'  urllib3: skipped, checking the newest version the policy allows failed',
+			'  flask: skipped, the newest version the policy allows is still being checked',
+		]);
+		assert.strictEqual(report.message, [
+			'Updated 1 of 4 packages',
+			'held back by the workspace update policy: numpy',
+			'skipped, checking the newest version the policy allows failed: urllib3',
+			'skipped, the newest version the policy allows is still being checked: flask',
+		].join('; '));
+	});
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { conflictsInvolving, findConflicts, parsePipCheck } from '@/modules/DependencyCheck';
+
+suite('Dependency Check Test Suite', () => {
+	test('parse pip check output', () => {
+		const conflicts = parsePipCheck([
+			'requests 2.31.0 requires idna, which is not installed.',
+			'botocore 1.34.0 has requirement urllib3<2.1,>=1.25.4, but you have urllib3 2.2.0.',
+			'httpx 0.27.0 requires sniffio>=1.3, but you have sniffio 1.2.0.',
+			'pywin32 306 is not supported on this platform',
+			'No broken requirements found.',
+		].join('\n'));
+		assert.deepStrictEqual(conflicts.map(({ message: _, ...conflict }) => conflict), [
+			{ name: 'requests', version: '2.31.0', dependency: 'idna', requirement: 'idna' },
+			{ name: 'botocore', version: '1.34.0', dependency: 'urllib3', requirement: 'urllib3<2.1,>=1.25.4', installedVersion: '2.2.0' },
+			{ name: 'httpx', version: '0.27.0', dependency: 'sniffio', requirement: 'sniffio>=1.3', installedVersion: '1.2.0' },
+			{ name: 'pywin32', version: '306' },
+		]);
+		assert.deepStrictEqual(parsePipCheck('No broken requirements found.\n'), []);
+	});
+
+	test('find conflicts from installed metadata', () => {
+		const conflicts = findConflicts({
+			markers: { sys_platform: 'linux' },
+			packages: [
+				{ name: 'requests', version: '2.31.0', requires: ['idna<4,>=2.5', 'urllib3<3', 'colorama; sys_platform == "win32"'] },
+				{ name: 'urllib3', version: '3.0.0' },
+				{ name: 'Flask', version: '3.0.0', requires: ['Werkzeug>=3.0'] },
+				{ name: 'werkzeug', version: '3.0.1' },
+			],
+		});
+		assert.deepStrictEqual(conflicts.map((conflict) => conflict.message), [
+			'requests 2.31.0 requires idna<4,>=2.5, which is not installed.',
+			'requests 2.31.0 requires urllib3<3, but you have urllib3 3.0.0.',
+		]);
+		assert.deepStrictEqual(conflictsInvolving(conflicts, 'URLLIB3').map((conflict) => conflict.name), ['requests']);
+		assert.strictEqual(conflictsInvolving(conflicts, 'requests').length, 2);
+		assert.deepStrictEqual(conflictsInvolving(conflicts, 'flask'), []);
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { DependencyGraph } from '@/modules/DependencyGraph';
+
+function dist(name: string, version: string, requires: string[] = []) {
+	return { name, version, requires };
+}
+
+const GRAPH = new DependencyGraph({
+	markers: { sys_platform: 'linux', python_version: '3.11' },
+	packages: [
+		dist('requests', '2.31.0', ['idna<4,>=2.5', 'urllib3<3,>=1.21.1', 'PySocks>=1.5.6; extra == "socks"', 'colorama; sys_platform == "win32"']),
+		dist('idna', '3.6'),
+		dist('urllib3', '2.1.0'),
+		dist('httpx', '0.27.0', ['idna', 'sniffio']),
+		dist('sniffio', '1.3.0'),
+		dist('Cycle_A', '1.0', ['cycle-b']),
+		dist('cycle-b', '1.0', ['cycle_a>=1']),
+	],
+});
+
+suite('Dependency Graph Test Suite', () => {
+	test('edges skip extras and markers for other platforms', () => {
+		assert.deepStrictEqual(GRAPH.dependencies('Requests').map((edge) => [edge.key, edge.specifier]), [
+			['idna', '<4,>=2.5'],
+			['urllib3', '<3,>=1.21.1'],
+		]);
+		assert.deepStrictEqual(GRAPH.dependencies('httpx').map((edge) => edge.key), ['idna', 'sniffio']);
+	});
+
+	test('dependents carry the specifier each one asks for', () => {
+		assert.deepStrictEqual(GRAPH.dependents('IDNA').map(({ dist, specifier }) => [dist.name, specifier]), [
+			['httpx', ''],
+			['requests', '<4,>=2.5'],
+		]);
+		assert.deepStrictEqual(GRAPH.dependents('httpx'), []);
+	});
+
+	test('roots are top-level packages plus an entry into each unreachable cycle', () => {
+		assert.deepStrictEqual(GRAPH.roots().map((root) => root.name), ['httpx', 'requests', 'Cycle_A']);
+		assert.strictEqual(GRAPH.isTopLevel('requests'), true);
+		assert.strictEqual(GRAPH.isTopLevel('cycle-a'), false);
+	});
+
+	test('removing a package frees only dependencies nothing else needs', () => {
+		const graph = new DependencyGraph({
+			markers: {},
+			packages: [
+				dist('flask', '3.0.0', ['werkzeug', 'jinja2', 'click', 'loop-a']),
+				dist('werkzeug', '3.0.1', ['markupsafe']),
+				dist('jinja2', '3.1.2', ['markupsafe']),
+				dist('markupsafe', '2.1.3'),
+				dist('click', '8.1.7'),
+				dist('black', '24.1.0', ['click']),
+				dist('loop-a', '1.0', ['loop-b']),
+				dist('loop-b', '1.0', ['loop-a']),
+			],
+		});
+		assert.deepStrictEqual(graph.unusedAfterRemoving('Flask', new Set()).map((dist) => dist.name), ['jinja2', 'loop-a', 'loop-b', 'markupsafe', 'werkzeug']);
+		// A declared package stays together with its own requirements
+		assert.deepStrictEqual(graph.unusedAfterRemoving('flask', new Set(['jinja2'])).map((dist) => dist.name), ['loop-a', 'loop-b', 'werkzeug']);
+	});
+});
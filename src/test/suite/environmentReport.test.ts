@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { mergeEnvironmentReport, parseInspectReport } from '@/modules/EnvironmentReport';
+
+const REPORT = {
+	version: '1',
+	pip_version: '24.0',
+	installed: [
+		{
+			metadata: {
+				name: 'Requests',
+				version: '2.31.0',
+				summary: 'Python HTTP for Humans.',
+				license: 'Apache 2.0',
+				author: 'Kenneth Reitz',
+				home_page: 'https://requests.readthedocs.io',
+				project_url: ['Source, https://github.com/psf/requests'],
+				requires_dist: ['charset-normalizer<4,>=2', 'PySocks!=1.5.7,>=1.5.6; extra == "socks"'],
+			},
+			metadata_location: path.join('site-packages', 'requests-2.31.0.dist-info'),
+			installer: 'pip',
+			requested: true,
+		},
+		{
+			metadata: {
+				name: 'my_tool',
+				version: '0.1.0',
+				license: 'Permission is hereby granted...\n(full MIT text)',
+				classifier: ['License :: OSI Approved :: MIT License', 'Programming Language :: Python'],
+			},
+			direct_url: { url: 'file:///home/me/my-tool', dir_info: { editable: true } },
+			installer: 'uv',
+			requested: false,
+		},
+		{ metadata: { summary: 'broken, no name' } },
+	],
+	environment: { python_full_version: '3.12.1', sys_platform: 'linux' },
+};
+
+suite('Environment Report Test Suite', () => {
+	test('parse: pip inspect report', () => {
+		const report = parseInspectReport(REPORT);
+		assert.strictEqual(report.pipVersion, '24.0');
+		assert.strictEqual(report.pythonVersion, '3.12.1');
+		assert.strictEqual(report.markers.sys_platform, 'linux');
+		assert.strictEqual(report.packages.length, 2);
+
+		const [requests, tool] = report.packages;
+		assert.strictEqual(requests.summary, 'Python HTTP for Humans.');
+		assert.strictEqual(requests.location, 'site-packages');
+		assert.deepStrictEqual(requests.projectUrls, { Homepage: 'https://requests.readthedocs.io', Source: 'https://github.com/psf/requests' });
+		assert.strictEqual(requests.requires?.length, 2);
+		assert.strictEqual(requests.editable, false);
+
+		assert.strictEqual(tool.license, 'MIT License');
+		assert.strictEqual(tool.editable, true);
+		assert.strictEqual(tool.directUrl, 'file:///home/me/my-tool');
+		assert.strictEqual(tool.requested, false);
+	});
+
+	test('merge: details attach by normalized name', () => {
+		const merged = mergeEnvironmentReport(
+			[{ name: 'requests', version: '2.31.0', channel: 'conda-forge' }, { name: 'My-Tool', version: '0.1.0' }, { name: 'other', version: '1.0' }],
+			parseInspectReport(REPORT)
+		);
+		assert.strictEqual(merged[0].name, 'requests');
+		assert.strictEqual(merged[0].channel, 'conda-forge');
+		assert.strictEqual(merged[0].installer, 'pip');
+		assert.strictEqual(merged[1].name, 'My-Tool');
+		assert.strictEqual(merged[1].editable, true);
+		assert.strictEqual(merged[2].summary, undefined);
+	});
+});
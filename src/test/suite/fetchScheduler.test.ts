@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { FetchScheduler, isRetryableError, retryDelay } from '@/modules/FetchScheduler';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+	return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } });
+}
+
+suite('Fetch Scheduler Test Suite', () => {
+	test('retryable errors', () => {
+		assert.strictEqual(isRetryableError(httpError(429)), true);
+		assert.strictEqual(isRetryableError(httpError(503)), true);
+		assert.strictEqual(isRetryableError(httpError(404)), false);
+		assert.strictEqual(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' })), true);
+		assert.strictEqual(isRetryableError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' })), false);
+	});
+
+	test('delay: Retry-After wins over backoff', () => {
+		assert.strictEqual(retryDelay(httpError(429, { 'retry-after': '2' }), 0, 100, 30000), 2000);
+		assert.strictEqual(retryDelay(httpError(429, { 'retry-after': '120' }), 0, 100, 30000), 30000);
+		const backoff = retryDelay(httpError(503), 3, 100, 30000);
+		assert.ok(backoff >= 400 && backoff <= 800, `${backoff}`);
+	});
+
+	test('concurrency stays within the limit', async () => {
+		const scheduler = new FetchScheduler({ maxConcurrency: 3 });
+		let active = 0;
+		let peak = 0;
+		await Promise.all(Array.from({ length: 10 }, () => scheduler.run(async () => {
+			peak = Math.max(peak, ++active);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			active--;
+		})));
+		assert.strictEqual(peak, 3);
+	});
+
+	test('retries server errors, gives up on client errors', async () => {
+		const scheduler = new FetchScheduler({ maxConcurrency: 2, retries: 3, baseDelay: 1 });
+		let calls = 0;
+		const result = await scheduler.run(async () => {
+			if (++calls < 3) {
+				throw httpError(503);
+			}
+			return 'ok';
+		});
+		assert.strictEqual(result, 'ok');
+		assert.strictEqual(calls, 3);
+
+		calls = 0;
+		await assert.rejects(scheduler.run(async () => {
+			calls++;
+			throw httpError(404);
+		}));
+		assert.strictEqual(calls, 1);
+	});
+
+	test('429 halves the pool and successes grow it back', async () => {
+		const scheduler = new FetchScheduler({ maxConcurrency: 4, retries: 1, baseDelay: 1 });
+		let limited = true;
+		await scheduler.run(async () => {
+			if (limited) {
+				limited = false;
+				throw httpError(429);
+			}
+		});
+		assert.strictEqual(scheduler.concurrency, 2);
+		for (let i = 0; i < 5; i++) {
+			await scheduler.run(async () => undefined);
+		}
+		assert.strictEqual(scheduler.concurrency, 4);
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	findDeclaredPackages, findDuplicateRequirements, findInvalidRequirements, parsePyprojectDependencies, parseRequirementsText,
+	pyprojectDependencyPrefix, requirementCompletionAt, requirementsFileNames,
+} from '@/modules/Manifests';
+
+suite('Manifests Test Suite', () => {
+	test('requirements files skip options, URLs and comments', () => {
+		const text = [
+			'# tools',
+			'-r base.txt',
+			'--index-url https://example.com/simple',
+			'Requests[socks]>=2.31 ; python_version >= "3.8"  # http',
+			'  numpy==1.26.* \\',
+			'    --hash=sha256:abc',
+			'-e ./local',
+			'pkg @ https://example.com/pkg.whl',
+		].join('\n');
+		assert.deepStrictEqual(parseRequirementsText(text), [
+			{ name: 'Requests', specifier: '>=2.31', marker: 'python_version >= "3.8"', line: 3, nameStart: 0, nameEnd: 8, specifierStart: 15, specifierEnd: 21 },
+			{ name: 'numpy', specifier: '==1.26.*', marker: undefined, line: 4, nameStart: 2, nameEnd: 7, specifierStart: 7, specifierEnd: 15 },
+		]);
+	});
+
+	test('invalid and duplicate requirements', () => {
+		const text = [
+			'requests>=2',
+			'numpy=1.26',
+			'./vendor/pkg',
+			'https://example.com/pkg.tar.gz',
+			'Requests',
+			'pywin32; sys_platform == "win32"',
+			'pywin32 ; sys_platform=="win32"',
+			'flask (>= 3.0)',
+		].join('\n');
+		assert.deepStrictEqual(findInvalidRequirements(text), [{ line: 1, start: 0, end: 10 }]);
+		const requirements = parseRequirementsText(text);
+		assert.deepStrictEqual(findDuplicateRequirements(requirements).map(({ requirement, first }) => [requirement.line, first.line]), [[4, 0], [6, 5]]);
+		assert.deepStrictEqual([requirements[4].specifierStart, requirements[4].specifierEnd], [6, 14]);
+	});
+
+	test('pyproject dependencies come from PEP 621, dependency groups and poetry', () => {
+		const text = [
+			'[project]',
+			'name = "demo"',
+			'dependencies = [',
+			'    "httpx>=0.27",  # client',
+			'    \'rich\',',
+			']',
+			'[project.optional-dependencies]',
+			'test = ["pytest"]',
+			'[dependency-groups]',
+			'dev = ["ruff", {include-group = "test"}]',
+			'[tool.poetry.group.docs.dependencies]',
+			'python = "^3.10"',
+			'mkdocs = "^1.5"',
+		].join('\n');
+		const dependencies = parsePyprojectDependencies(text);
+		assert.deepStrictEqual(dependencies.map((dependency) => [dependency.name, dependency.specifier, dependency.line]), [
+			['httpx', '>=0.27', 3],
+			['rich', '', 4],
+			['pytest', '', 7],
+			['ruff', '', 9],
+			['mkdocs', '', 12],
+		]);
+		assert.deepStrictEqual([dependencies[0].nameStart, dependencies[0].nameEnd, dependencies[0].specifierStart, dependencies[0].specifierEnd], [5, 10, 10, 16]);
+		assert.deepStrictEqual([dependencies[3].nameStart, dependencies[4].nameStart], [8, 0]);
+	});
+
+	test('declared packages follow requirement includes', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pydep-pilot-manifests-'));
+		try {
+			fs.mkdirSync(path.join(dir, 'requirements'));
+			fs.writeFileSync(path.join(dir, 'requirements.txt'), '-r requirements/base.txt\nDjango>=5\n');
+			fs.writeFileSync(path.join(dir, 'requirements', 'base.txt'), 'python_dateutil\n');
+			fs.writeFileSync(path.join(dir, 'pyproject.toml'), '[project]\ndependencies = ["Flask"]\n');
+			fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored\n');
+			const names = await findDeclaredPackages([dir]);
+			assert.deepStrictEqual([...names].sort(), ['django', 'flask', 'python-dateutil']);
+			assert.deepStrictEqual(await requirementsFileNames(path.join(dir, 'requirements.txt')), ['Django', 'python_dateutil']);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('completion context of a partly typed requirement', () => {
+		assert.deepStrictEqual(requirementCompletionAt('  reque'), { kind: 'name', prefix: 'reque' });
+		assert.deepStrictEqual(requirementCompletionAt(''), { kind: 'name', prefix: '' });
+		assert.deepStrictEqual(requirementCompletionAt('requests[socks]>=2.0,~=2.3'), { kind: 'version', name: 'requests', operator: '~=', prefix: '2.3' });
+		assert.deepStrictEqual(requirementCompletionAt('numpy =='), { kind: 'version', name: 'numpy', operator: '==', prefix: '' });
+		assert.strictEqual(requirementCompletionAt('numpy<'), undefined);
+		assert.strictEqual(requirementCompletionAt('-r base.txt'), undefined);
+		assert.strictEqual(requirementCompletionAt('numpy; python_version >= "3'), undefined);
+	});
+
+	test('completion only inside pyproject dependency strings', () => {
+		const head = '[project]\nname = "demo"\ndependencies = [\n    "requests>=2",  # http\n';
+		assert.strictEqual(pyprojectDependencyPrefix(head + '    "htt'), 'htt');
+		assert.strictEqual(pyprojectDependencyPrefix(head + '    "numpy[extra]=='), 'numpy[extra]==');
+		assert.strictEqual(pyprojectDependencyPrefix(head + '    '), undefined);
+		assert.strictEqual(pyprojectDependencyPrefix(head + ']\ndescription = "htt'), undefined);
+		assert.strictEqual(pyprojectDependencyPrefix('[project]\nname = "htt'), undefined);
+		assert.strictEqual(pyprojectDependencyPrefix('[dependency-groups]\ndev = ["ruff", \'py'), 'py');
+	});
+});
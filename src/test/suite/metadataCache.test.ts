@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { MetadataCache } from '@/modules/MetadataCache';
+import { FetchScheduler } from '@/modules/FetchScheduler';
+
+const PAGE = {
+	meta: { 'api-version': '1.0' },
+	name: 'demo',
+	files: [{ filename: 'demo-1.0.tar.gz', url: '/files/demo-1.0.tar.gz', hashes: {} }],
+};
+
+suite('Metadata Cache Test Suite', () => {
+	let server: http.Server;
+	let indexUrl = '';
+	let dir = '';
+	let available = true;
+	const requests: { ifNoneMatch?: string }[] = [];
+
+	suiteSetup((done) => {
+		server = http.createServer((req, res) => {
+			requests.push({ ifNoneMatch: req.headers['if-none-match'] });
+			if (!available) {
+				res.writeHead(503);
+				res.end();
+			} else if (req.headers['if-none-match'] === '"v1"') {
+				res.writeHead(304, { ETag: '"v1"' });
+				res.end();
+			} else if (req.url === '/simple/demo/') {
+				res.writeHead(200, { 'Content-Type': 'application/vnd.pypi.simple.v1+json', ETag: '"v1"' });
+				res.end(JSON.stringify(PAGE));
+			} else {
+				res.writeHead(404);
+				res.end();
+			}
+		});
+		server.listen(0, '127.0.0.1', () => {
+			indexUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/simple`;
+			done();
+		});
+	});
+
+	// No retries, a 503 should fall back to the cache straight away
+	const newCache = () => new MetadataCache(dir, new FetchScheduler({ maxConcurrency: 2, retries: 0 }));
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pydep-pilot-cache-'));
+		requests.length = 0;
+		available = true;
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	suiteTeardown((done) => {
+		server.close(() => done());
+	});
+
+	test('fresh entries are served without a request', async () => {
+		const cache = newCache();
+		const first = await cache.getProjectPage(indexUrl, 'Demo', {}, { ttl: 60000, offline: false });
+		const second = await cache.getProjectPage(indexUrl, 'demo', {}, { ttl: 60000, offline: false });
+		assert.strictEqual(first.data.files.length, 1);
+		assert.strictEqual(second.stale, false);
+		assert.strictEqual(second.data.files[0].url, first.data.files[0].url);
+		assert.strictEqual(requests.length, 1);
+	});
+
+	test('expired entries are revalidated with the ETag', async () => {
+		const cache = newCache();
+		await cache.getProjectPage(indexUrl, 'demo', {}, { ttl: 0, offline: false });
+		const revalidated = await cache.getProjectPage(indexUrl, 'demo', {}, { ttl: 0, offline: false });
+		assert.deepStrictEqual(requests.map((r) => r.ifNoneMatch), [undefined, '"v1"']);
+		assert.strictEqual(revalidated.stale, false);
+		assert.strictEqual(revalidated.data.files[0].filename, 'demo-1.0.tar.gz');
+	});
+
+	test('offline and unreachable indexes serve stale data', async () => {
+		const cache = newCache();
+		await cache.getProjectPage(indexUrl, 'demo', {}, { ttl: 0, offline: false });
+		const offline = await cache.getProjectPage(indexUrl, 'demo', {}, { ttl: 0, offline: true });
+		assert.strictEqual(offline.stale, true);
+		assert.strictEqual(requests.length, 1);
+
+		available = false;
+		const unreachable = await cache.getProjectPage(indexUrl, 'demo', {}, { ttl: 0, offline: false });
+		assert.strictEqual(unreachable.stale, true);
+		await assert.rejects(cache.getProjectPage(indexUrl, 'other', {}, { ttl: 0, offline: true }));
+	});
+
+	test('missing packages are not cached', async () => {
+		const cache = newCache();
+		await assert.rejects(cache.getProjectPage(indexUrl, 'missing', {}, { ttl: 60000, offline: false }));
+		await assert.rejects(cache.getProjectPage(indexUrl, 'missing', {}, { ttl: 60000, offline: false }));
+		assert.strictEqual(requests.length, 2);
+	});
+});
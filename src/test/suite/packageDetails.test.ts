@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { describeDependencies } from '@/modules/PackageDetails';
+
+suite('Package Details Test Suite', () => {
+	test('dependencies are matched with installed versions and markers', () => {
+		const installed = [
+			{ name: 'charset-normalizer', version: '3.3.2' },
+			{ name: 'idna', version: '2.10' },
+			{ name: 'PySocks', version: '1.7.1' },
+		];
+		const deps = describeDependencies([
+			'PySocks!=1.5.7,>=1.5.6; extra == "socks"',
+			'idna<4,>=2.5',
+			'charset_normalizer<4,>=2',
+			'urllib3<3,>=1.21.1',
+			'colorama; sys_platform == "win32"',
+		], installed, { sys_platform: 'linux', python_version: '3.11' });
+
+		assert.deepStrictEqual(deps.map((dep) => dep.name), ['charset_normalizer', 'idna', 'urllib3', 'PySocks', 'colorama']);
+		assert.strictEqual(deps[0].installedVersion, '3.3.2');
+		assert.strictEqual(deps[0].satisfied, true);
+		assert.strictEqual(deps[1].satisfied, true);
+		assert.strictEqual(deps[2].installedVersion, undefined);
+		assert.strictEqual(deps[2].satisfied, undefined);
+		assert.deepStrictEqual(deps[3].extras, ['socks']);
+		assert.strictEqual(deps[3].applies, true);
+		assert.strictEqual(deps[4].applies, false);
+	});
+
+	test('an installed version outside the specifier is flagged', () => {
+		const [dep] = describeDependencies(['idna>=3'], [{ name: 'idna', version: '2.10' }], {});
+		assert.strictEqual(dep.satisfied, false);
+	});
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { fetchCoreMetadata, fetchProjectListConditional, fetchProjectPage, fetchProjectSummary, groupFilesByVersion, parseProjectList, parseSimpleHtml, versionFromFilename } from '@/modules/PackageIndex';
+
+const JSON_PAGE = {
+	meta: { 'api-version': '1.1' },
+	name: 'demo-pkg',
+	files: [
+		{ filename: 'demo_pkg-1.0.0-py3-none-any.whl', url: '/files/demo_pkg-1.0.0-py3-none-any.whl', hashes: {}, 'core-metadata': { sha256: 'abc' } },
+		{ filename: 'demo-pkg-1.1.tar.gz', url: 'https://files.example/demo-pkg-1.1.tar.gz', hashes: {}, 'requires-python': '>=3.9', 'upload-time': '2024-05-01T12:00:00.000000Z' },
+		{ filename: 'demo_pkg-1.2-py3-none-any.whl', url: '/files/demo_pkg-1.2-py3-none-any.whl', hashes: {}, yanked: 'broken build' },
+	],
+};
+
+const HTML_PAGE = `<!DOCTYPE html>
+<html><body>
+<a href="../../files/demo-pkg-0.9.zip#sha256=abc">demo-pkg-0.9.zip</a>
+<a href="/files/demo_pkg-1.0-py3-none-any.whl" data-requires-python="&gt;=3.8">demo_pkg-1.0-py3-none-any.whl</a>
+<a href="/files/demo_pkg-2.0rc1-py3-none-any.whl" data-yanked="">demo_pkg-2.0rc1-py3-none-any.whl</a>
+</body></html>`;
+
+suite('Package Index Test Suite', () => {
+	let server: http.Server;
+	let baseUrl = '';
+	const requests: { url?: string; accept?: string }[] = [];
+
+	suiteSetup((done) => {
+		server = http.createServer((req, res) => {
+			requests.push({ url: req.url, accept: req.headers.accept });
+			if (req.url === '/json/simple/demo-pkg/') {
+				res.writeHead(200, { 'Content-Type': 'application/vnd.pypi.simple.v1+json' });
+				res.end(JSON.stringify(JSON_PAGE));
+			} else if (req.url === '/json/simple/') {
+				res.writeHead(200, { 'Content-Type': 'application/vnd.pypi.simple.v1+json' });
+				res.end(JSON.stringify({ meta: { 'api-version': '1.1' }, projects: [{ name: 'demo-pkg' }, { name: 'Other_Pkg' }] }));
+			} else if (req.url === '/json/pypi/demo-pkg/json') {
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ info: { summary: 'A demo package', version: '1.1' } }));
+			} else if (req.url === '/files/demo_pkg-1.0.0-py3-none-any.whl.metadata') {
+				res.writeHead(200, { 'Content-Type': 'text/plain' });
+				res.end('Metadata-Version: 2.1\nName: demo-pkg\nVersion: 1.0.0\n');
+			} else if (req.url === '/html/simple/demo-pkg/') {
+				res.writeHead(200, { 'Content-Type': 'text/html' });
+				res.end(HTML_PAGE);
+			} else {
+				res.writeHead(404);
+				res.end();
+			}
+		});
+		server.listen(0, '127.0.0.1', () => {
+			baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+			done();
+		});
+	});
+
+	suiteTeardown((done) => {
+		server.close(() => done());
+	});
+
+	test('filename: version from wheels and sdists', () => {
+		assert.strictEqual(versionFromFilename('demo_pkg-1.0.0-py3-none-any.whl', 'demo-pkg'), '1.0.0');
+		assert.strictEqual(versionFromFilename('demo-pkg-1.1.tar.gz', 'demo-pkg'), '1.1');
+		assert.strictEqual(versionFromFilename('Demo.Pkg-1.1rc1.zip', 'demo-pkg'), '1.1rc1');
+		assert.strictEqual(versionFromFilename('demo-pkg-1.1.tar.gz.asc', 'demo-pkg'), null);
+	});
+
+	test('html: attributes are unescaped and links resolved', () => {
+		const page = parseSimpleHtml(HTML_PAGE, 'demo-pkg', 'https://mirror.example/simple/demo-pkg/');
+		assert.strictEqual(page.files.length, 3);
+		assert.strictEqual(page.files[0].url, 'https://mirror.example/files/demo-pkg-0.9.zip#sha256=abc');
+		assert.strictEqual(page.files[1].requiresPython, '>=3.8');
+		assert.strictEqual(page.files[2].yanked, true);
+		assert.strictEqual(page.files[2].yankedReason, undefined);
+	});
+
+	test('fetch: JSON simple API', async () => {
+		const page = await fetchProjectPage(`${baseUrl}/json/simple/`, 'Demo_Pkg');
+		assert.strictEqual(requests[requests.length - 1].url, '/json/simple/demo-pkg/');
+		assert.ok(requests[requests.length - 1].accept?.startsWith('application/vnd.pypi.simple.v1+json'));
+		const releases = groupFilesByVersion(page);
+		assert.deepStrictEqual(Object.keys(releases).sort(), ['1.0.0', '1.1', '1.2']);
+		assert.strictEqual(releases['1.0.0'][0].url, `${baseUrl}/files/demo_pkg-1.0.0-py3-none-any.whl`);
+		assert.strictEqual(releases['1.1'][0].requiresPython, '>=3.9');
+		assert.strictEqual(releases['1.1'][0].uploadTime, '2024-05-01T12:00:00.000000Z');
+		assert.strictEqual(releases['1.2'][0].yankedReason, 'broken build');
+		assert.strictEqual(releases['1.0.0'][0].coreMetadata, true);
+		assert.strictEqual(releases['1.1'][0].coreMetadata, false);
+		assert.ok((await fetchCoreMetadata(releases['1.0.0'][0])).includes('Version: 1.0.0'));
+	});
+
+	test('fetch: HTML fallback', async () => {
+		const page = await fetchProjectPage(`${baseUrl}/html/simple`, 'demo-pkg');
+		assert.deepStrictEqual(Object.keys(groupFilesByVersion(page)).sort(), ['0.9', '1.0', '2.0rc1']);
+	});
+
+	test('fetch: missing project rejects', async () => {
+		await assert.rejects(fetchProjectPage(`${baseUrl}/json/simple/`, 'missing'));
+	});
+
+	test('project list: JSON and HTML', async () => {
+		const list = await fetchProjectListConditional(`${baseUrl}/json/simple`);
+		assert.deepStrictEqual(list.data, ['demo-pkg', 'Other_Pkg']);
+		assert.deepStrictEqual(parseProjectList('<a href="/simple/a-b/">a-b</a>\n<a href="/simple/c/">c&amp;d</a>', false), ['a-b', 'c&d']);
+	});
+
+	test('summary: JSON API next to the simple index', async () => {
+		assert.deepStrictEqual(await fetchProjectSummary(`${baseUrl}/json/simple/`, 'Demo_Pkg'), { summary: 'A demo package', version: '1.1' });
+		assert.strictEqual(await fetchProjectSummary(`${baseUrl}/json/simple/`, 'missing'), undefined);
+		assert.strictEqual(await fetchProjectSummary(`${baseUrl}/custom-index`, 'demo-pkg'), undefined);
+	});
+});
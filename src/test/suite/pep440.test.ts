@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import {
+	compareVersions,
+	filterVersions,
+	getUpdateType,
+	isNewerVersion,
+	isPrerelease,
+	normalizeVersion,
+	parseSpecifierSet,
+	parseVersion,
+	satisfies,
+	sortVersions,
+} from '@/utils/pep440';
+
+suite('PEP 440 Test Suite', () => {
+	test('parse: release, epoch and suffixes', () => {
+		assert.deepStrictEqual(parseVersion('1.2.3'), { epoch: 0, release: [1, 2, 3] });
+		assert.deepStrictEqual(parseVersion('2!1.0'), { epoch: 2, release: [1, 0] });
+		assert.deepStrictEqual(parseVersion('1.0rc1')?.pre, ['rc', 1]);
+		assert.deepStrictEqual(parseVersion('1.0a2')?.pre, ['a', 2]);
+		assert.strictEqual(parseVersion('1.0.post1')?.post, 1);
+		assert.strictEqual(parseVersion('1.0.dev3')?.dev, 3);
+		assert.deepStrictEqual(parseVersion('1.0+ubuntu.1')?.local, ['ubuntu', 1]);
+	});
+
+	test('parse: alternative spellings normalize', () => {
+		assert.strictEqual(normalizeVersion('v1.0'), '1.0');
+		assert.strictEqual(normalizeVersion('1.0-RC.1'), '1.0rc1');
+		assert.strictEqual(normalizeVersion('1.0alpha'), '1.0a0');
+		assert.strictEqual(normalizeVersion('1.0c1'), '1.0rc1');
+		assert.strictEqual(normalizeVersion('1.0preview2'), '1.0rc2');
+		assert.strictEqual(normalizeVersion('1.0-1'), '1.0.post1');
+		assert.strictEqual(normalizeVersion('1.0.rev2'), '1.0.post2');
+		assert.strictEqual(normalizeVersion('1.0-dev'), '1.0.dev0');
+		assert.strictEqual(normalizeVersion('1.0+Ubuntu-1'), '1.0+ubuntu.1');
+	});
+
+	test('parse: invalid versions', () => {
+		assert.strictEqual(parseVersion(''), null);
+		assert.strictEqual(parseVersion('latest'), null);
+		assert.strictEqual(parseVersion('1.0.x'), null);
+		assert.strictEqual(parseVersion('1.0+'), null);
+	});
+
+	test('compare: ordering across all segments', () => {
+		const ordered = [
+			'1.0.dev0',
+			'1.0a1.dev1',
+			'1.0a1',
+			'1.0a2',
+			'1.0b1',
+			'1.0rc1',
+			'1.0',
+			'1.0+local.1',
+			'1.0.post1.dev1',
+			'1.0.post1',
+			'1.0.1',
+			'1.10',
+			'2!0.1',
+		];
+		for (let i = 0; i < ordered.length - 1; i++) {
+			assert.strictEqual(compareVersions(ordered[i], ordered[i + 1]), -1, `${ordered[i]} < ${ordered[i + 1]}`);
+			assert.strictEqual(compareVersions(ordered[i + 1], ordered[i]), 1, `${ordered[i + 1]} > ${ordered[i]}`);
+		}
+	});
+
+	test('compare: equivalent forms are equal', () => {
+		assert.strictEqual(compareVersions('1.0', '1.0.0'), 0);
+		assert.strictEqual(compareVersions('1.0RC1', '1.0rc1'), 0);
+		assert.strictEqual(compareVersions('0!1.0', '1.0'), 0);
+	});
+
+	test('compare: local version segments', () => {
+		assert.strictEqual(compareVersions('1.0+abc', '1.0+1'), -1);
+		assert.strictEqual(compareVersions('1.0+1.2', '1.0+1'), 1);
+		assert.strictEqual(compareVersions('1.0+2', '1.0+10'), -1);
+	});
+
+	test('compare: invalid versions sort first', () => {
+		assert.strictEqual(compareVersions('not-a-version', '0.0.1'), -1);
+		assert.strictEqual(compareVersions('0.0.1', 'not-a-version'), 1);
+	});
+
+	test('sort: newest first', () => {
+		assert.deepStrictEqual(
+			sortVersions(['1.0', '1.0rc1', '2!1.0', '1.0.post1', '1.0a2', '1.10', '1.9']),
+			['2!1.0', '1.10', '1.9', '1.0.post1', '1.0', '1.0rc1', '1.0a2']
+		);
+		assert.deepStrictEqual(sortVersions(['2.0', '1.0'], false), ['1.0', '2.0']);
+	});
+
+	test('newer and pre-release checks', () => {
+		assert.strictEqual(isNewerVersion('1.10', '1.9'), true);
+		assert.strictEqual(isNewerVersion('1.0', '1.0.0'), false);
+		assert.strictEqual(isNewerVersion('1.0rc1', '1.0'), false);
+		assert.strictEqual(isPrerelease('1.0rc1'), true);
+		assert.strictEqual(isPrerelease('1.0.dev1'), true);
+		assert.strictEqual(isPrerelease('1.0.post1'), false);
+		assert.strictEqual(isPrerelease('1.0'), false);
+	});
+
+	test('update type: major, minor and patch', () => {
+		assert.strictEqual(getUpdateType('1.2.3', '2.0.0'), 'major');
+		assert.strictEqual(getUpdateType('1.2.3', '1!1.2.3'), 'major');
+		assert.strictEqual(getUpdateType('1.2.3', '1.3.0'), 'minor');
+		assert.strictEqual(getUpdateType('1.2', '1.2.1'), 'patch');
+		assert.strictEqual(getUpdateType('1.2.3', '1.2.3.post1'), 'patch');
+		assert.strictEqual(getUpdateType('1.2.3rc1', '1.2.3'), 'patch');
+		assert.strictEqual(getUpdateType('2024.1', '2025.1'), 'major');
+		assert.strictEqual(getUpdateType('1.2.3', '1.2.3'), null);
+		assert.strictEqual(getUpdateType('1.3.0', '1.2.3'), null);
+		assert.strictEqual(getUpdateType('1.0', 'latest'), null);
+	});
+
+	test('specifier: parse sets', () => {
+		assert.deepStrictEqual(parseSpecifierSet(''), []);
+		assert.strictEqual(parseSpecifierSet('>=1.0, <2')?.length, 2);
+		assert.strictEqual(parseSpecifierSet('>=1.0.*'), null);
+		assert.strictEqual(parseSpecifierSet('~=1'), null);
+		assert.strictEqual(parseSpecifierSet('=>1.0'), null);
+		assert.strictEqual(parseSpecifierSet('>=1.0,'), null);
+		assert.strictEqual(parseSpecifierSet('<1.0+local'), null);
+	});
+
+	test('specifier: equality and wildcards', () => {
+		assert.strictEqual(satisfies('1.0.0', '==1.0'), true);
+		assert.strictEqual(satisfies('1.0+local', '==1.0'), true);
+		assert.strictEqual(satisfies('1.0', '==1.0+local'), false);
+		assert.strictEqual(satisfies('1.1.post1', '==1.1.*'), true);
+		assert.strictEqual(satisfies('1.1', '==1.1.*'), true);
+		assert.strictEqual(satisfies('1.10', '==1.1.*'), false);
+		assert.strictEqual(satisfies('1.5.3', '!=1.5.*'), false);
+		assert.strictEqual(satisfies('1.6', '!=1.5.*'), true);
+		assert.strictEqual(satisfies('1.0', '===1.0'), true);
+		assert.strictEqual(satisfies('1.0.0', '===1.0'), false);
+		assert.strictEqual(satisfies('foobar', '===foobar'), true);
+	});
+
+	test('specifier: compatible release', () => {
+		assert.strictEqual(satisfies('2.2', '~=2.2'), true);
+		assert.strictEqual(satisfies('2.9', '~=2.2'), true);
+		assert.strictEqual(satisfies('3.0', '~=2.2'), false);
+		assert.strictEqual(satisfies('1.4.9', '~=1.4.5'), true);
+		assert.strictEqual(satisfies('1.5.0', '~=1.4.5'), false);
+		assert.strictEqual(satisfies('1.4.4', '~=1.4.5'), false);
+	});
+
+	test('specifier: ordered comparisons', () => {
+		assert.strictEqual(satisfies('1.5', '>=1.4,<2'), true);
+		assert.strictEqual(satisfies('2.0', '>=1.4,<2'), false);
+		assert.strictEqual(satisfies('1.0', '<=1.0'), true);
+		assert.strictEqual(satisfies('1.0+local', '<=1.0'), true);
+		assert.strictEqual(satisfies('1.7.1', '>1.7'), true);
+		assert.strictEqual(satisfies('1.7.0.post1', '>1.7'), false);
+		assert.strictEqual(satisfies('1.7.0.post2', '>1.7.post1'), true);
+		assert.strictEqual(satisfies('2.0rc1', '<2.0', { prereleases: true }), false);
+		assert.strictEqual(satisfies('1.9rc1', '<2.0', { prereleases: true }), true);
+	});
+
+	test('specifier: pre-release handling', () => {
+		assert.strictEqual(satisfies('2.0rc1', '>=1.0'), false);
+		assert.strictEqual(satisfies('2.0rc1', '>=1.0', { prereleases: true }), true);
+		assert.strictEqual(satisfies('2.0rc1', '>=2.0rc1'), true);
+		assert.strictEqual(satisfies('2.0rc1', ''), false);
+		assert.strictEqual(satisfies('2.0', ''), true);
+		assert.deepStrictEqual(filterVersions(['1.0', '2.0rc1'], '>=1.0'), ['1.0']);
+		assert.deepStrictEqual(filterVersions(['1.0', '2.0rc1'], '>=1.5'), ['2.0rc1']);
+	});
+
+	test('specifier: malformed sets match nothing', () => {
+		assert.strictEqual(satisfies('1.0', '>=>1.0'), false);
+		assert.strictEqual(satisfies('not-a-version', '>=1.0'), false);
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { evaluateMarker, markerExtras, parseRequirement } from '@/utils/pep508';
+
+const LINUX_311 = {
+	python_version: '3.11',
+	python_full_version: '3.11.4',
+	sys_platform: 'linux',
+	platform_system: 'Linux',
+	implementation_name: 'cpython',
+};
+
+suite('PEP 508 Test Suite', () => {
+	test('requirement: name, extras, specifier and marker', () => {
+		assert.deepStrictEqual(parseRequirement('requests[socks, security] >= 2.31, <3 ; python_version >= "3.8"'), {
+			name: 'requests',
+			extras: ['socks', 'security'],
+			specifier: '>=2.31,<3',
+			url: undefined,
+			marker: 'python_version >= "3.8"',
+		});
+		assert.strictEqual(parseRequirement('charset_normalizer (<4,>=2)')?.specifier, '<4,>=2');
+		assert.strictEqual(parseRequirement('idna')?.specifier, '');
+	});
+
+	test('requirement: direct references and invalid input', () => {
+		const direct = parseRequirement('pkg @ https://example.com/pkg.whl#sha256=abc ; sys_platform == "linux"');
+		assert.strictEqual(direct?.url, 'https://example.com/pkg.whl#sha256=abc');
+		assert.strictEqual(direct?.marker, 'sys_platform == "linux"');
+		assert.strictEqual(parseRequirement('-r other.txt'), null);
+		assert.strictEqual(parseRequirement('pkg >= banana'), null);
+	});
+
+	test('marker: versions, strings and boolean logic', () => {
+		assert.strictEqual(evaluateMarker('python_version >= "3.8"', LINUX_311), true);
+		assert.strictEqual(evaluateMarker('python_version < "3.9"', LINUX_311), false);
+		// 3.11 is newer than 3.9 as a version even though it sorts before it as a string
+		assert.strictEqual(evaluateMarker('python_version > "3.9"', LINUX_311), true);
+		assert.strictEqual(evaluateMarker('sys_platform == "win32" or (platform_system == "Linux" and implementation_name == "cpython")', LINUX_311), true);
+		assert.strictEqual(evaluateMarker('"linux" in sys_platform and sys_platform not in "win32 cygwin"', LINUX_311), true);
+		assert.strictEqual(evaluateMarker('this is not a marker', LINUX_311), true);
+	});
+
+	test('marker: extras', () => {
+		assert.strictEqual(evaluateMarker('extra == "socks"', LINUX_311), false);
+		assert.strictEqual(evaluateMarker('extra == "Socks_Proxy"', { ...LINUX_311, extra: 'socks-proxy' }), true);
+		assert.deepStrictEqual(markerExtras('python_version >= "3.8" and extra == \'test\''), ['test']);
+		assert.deepStrictEqual(markerExtras('sys_platform == "linux"'), []);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { ProjectSearchIndex, fuzzyScore } from '@/modules/ProjectSearch';
+
+suite('Project Search Test Suite', () => {
+	const index = new ProjectSearchIndex(['requests', 'requests-oauthlib', 'types-requests', 'Flask', 'flask-sqlalchemy', 'rq', 'pyreqs']);
+
+	test('ranks exact, prefix, word and fuzzy matches in that order', () => {
+		assert.deepStrictEqual(index.search('requests'), ['requests', 'requests-oauthlib', 'types-requests']);
+		assert.deepStrictEqual(index.search('flask').slice(0, 2), ['Flask', 'flask-sqlalchemy']);
+		assert.deepStrictEqual(index.search('rqsts'), ['requests', 'requests-oauthlib', 'types-requests']);
+	});
+
+	test('compares normalized names and keeps the original spelling', () => {
+		assert.deepStrictEqual(index.search('Flask_SQLAlchemy'), ['flask-sqlalchemy']);
+		assert.deepStrictEqual(index.search('FLASK').slice(0, 1), ['Flask']);
+	});
+
+	test('only offers prefixes for a single character', () => {
+		assert.deepStrictEqual(index.search('q'), []);
+		assert.deepStrictEqual(index.search('r'), ['rq', 'requests', 'requests-oauthlib']);
+	});
+
+	test('limits and scores', () => {
+		assert.strictEqual(index.search('requests', 1).length, 1);
+		assert.deepStrictEqual(index.search('  '), []);
+		assert.strictEqual(fuzzyScore('xyz', 'requests'), 0);
+		assert.ok(fuzzyScore('sql', 'flask-sqlalchemy') > fuzzyScore('sql', 'mysqlclient'));
+	});
+});
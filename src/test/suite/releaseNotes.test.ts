@@ -0,0 +1,229 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { fetchDistribution } from '@/modules/PackageIndex';
+import {
+	DistributionChangelogSource,
+	GitHubReleasesSource,
+	LongDescriptionChangelogSource,
+	extractChangelogSections,
+	findGitHubRepository,
+	formatReleaseNotes,
+	metadataDescription,
+	versionFromTag,
+} from '@/modules/ReleaseNotes';
+
+const REQUEST = {
+	name: 'demo-pkg',
+	fromVersion: '1.0.0',
+	toVersion: '1.2.0',
+	projectUrls: { Homepage: 'https://demo.example', Source: 'https://github.com/acme/demo-pkg.git' },
+};
+
+const RELEASES = [
+	{ tag_name: 'v2.0.0', name: 'Two', body: 'Not yet', published_at: '2024-06-01T00:00:00Z' },
+	{ tag_name: 'v1.2.0', name: 'Faster', body: 'Made it faster', published_at: '2024-05-01T00:00:00Z', html_url: 'https://github.com/acme/demo-pkg/releases/tag/v1.2.0' },
+	{ tag_name: 'v1.1.5', draft: true, body: 'Draft' },
+	{ tag_name: 'other-tool-1.1.0', body: 'Another package in the repo' },
+	{ tag_name: 'demo-pkg-1.1.0', body: 'Fixed bugs', published_at: '2024-04-01T00:00:00Z' },
+	{ tag_name: '1.0.0', body: 'Installed already' },
+];
+
+const METADATA = `Metadata-Version: 2.1
+Name: demo-pkg
+Version: 1.2.0
+Description-Content-Type: text/markdown
+
+# demo-pkg
+
+A demo.
+
+## Changelog
+
+### 1.2.0 (2024-05-01)
+
+- Made it faster
+
+### 1.1.0
+
+- Fixed bugs
+
+### 1.0.0
+
+- First release
+`;
+
+const CHANGES_RST = `Changes
+=======
+
+1.2.0
+-----
+
+- Made it faster
+
+1.1.0
+-----
+
+- Fixed bugs
+`;
+
+/**
+ * A gzipped tar holding the given files, the way sdists are packed
+ */
+function tarGz(files: Record<string, string>) {
+	const blocks: Buffer[] = [];
+	for (const [name, text] of Object.entries(files)) {
+		const body = Buffer.from(text);
+		const header = Buffer.alloc(512);
+		header.write(name, 0);
+		header.write('0000644\0', 100);
+		header.write(`${body.length.toString(8).padStart(11, '0')}\0`, 124);
+		header.write('        ', 148);
+		header.write('0', 156);
+		header.write('ustar\x0000', 257);
+		header.write(`${header.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0')}\0 `, 148);
+		blocks.push(header, body, Buffer.alloc((512 - body.length % 512) % 512));
+	}
+	return zlib.gzipSync(Buffer.concat([...blocks, Buffer.alloc(1024)]));
+}
+
+/**
+ * A zip with deflated entries, the way wheels are packed. CRCs are left out, readers here do not check them.
+ */
+function zip(files: Record<string, string>) {
+	const locals: Buffer[] = [];
+	const central: Buffer[] = [];
+	let offset = 0;
+	for (const [name, text] of Object.entries(files)) {
+		const nameBytes = Buffer.from(name);
+		const data = zlib.deflateRawSync(Buffer.from(text));
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(8, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(Buffer.byteLength(text), 22);
+		local.writeUInt16LE(nameBytes.length, 26);
+		const entry = Buffer.alloc(46);
+		entry.writeUInt32LE(0x02014b50, 0);
+		entry.writeUInt16LE(8, 10);
+		entry.writeUInt32LE(data.length, 20);
+		entry.writeUInt32LE(Buffer.byteLength(text), 24);
+		entry.writeUInt16LE(nameBytes.length, 28);
+		entry.writeUInt32LE(offset, 42);
+		locals.push(local, nameBytes, data);
+		central.push(entry, nameBytes);
+		offset += local.length + nameBytes.length + data.length;
+	}
+	const directory = Buffer.concat(central);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(Object.keys(files).length, 8);
+	end.writeUInt16LE(Object.keys(files).length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, directory, end]);
+}
+
+const DISTRIBUTIONS: Record<string, Buffer> = {
+	'/files/demo_pkg-1.2.0.tar.gz': tarGz({
+		'demo_pkg-1.2.0/PKG-INFO': METADATA,
+		'demo_pkg-1.2.0/CHANGES.rst': CHANGES_RST,
+		'demo_pkg-1.2.0/src/demo_pkg/changes.py': 'CHANGES = []\n',
+	}),
+	'/files/demo_pkg-1.2.0-py3-none-any.whl': zip({
+		'demo_pkg/__init__.py': '',
+		'demo_pkg-1.2.0.dist-info/CHANGELOG.md': '## 1.2.0\n\n- Made it faster\n',
+	}),
+};
+
+suite('Release Notes Test Suite', () => {
+	let server: http.Server;
+	let apiUrl = '';
+	const authorization: (string | undefined)[] = [];
+
+	suiteSetup((done) => {
+		server = http.createServer((req, res) => {
+			authorization.push(req.headers.authorization);
+			if (req.url && DISTRIBUTIONS[req.url]) {
+				res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+				res.end(DISTRIBUTIONS[req.url]);
+			} else if (req.url?.startsWith('/repos/acme/demo-pkg/releases')) {
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify(RELEASES));
+			} else {
+				res.writeHead(404);
+				res.end();
+			}
+		});
+		server.listen(0, '127.0.0.1', () => {
+			apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+			done();
+		});
+	});
+
+	suiteTeardown((done) => {
+		server.close(() => done());
+	});
+
+	test('repository and tags', () => {
+		assert.deepStrictEqual(findGitHubRepository(REQUEST.projectUrls), { owner: 'acme', repo: 'demo-pkg' });
+		assert.strictEqual(findGitHubRepository({ Homepage: 'https://gitlab.com/acme/demo' }), undefined);
+		assert.strictEqual(versionFromTag('v1.2.0', 'demo-pkg'), '1.2.0');
+		assert.strictEqual(versionFromTag('Demo_Pkg-1.1', 'demo-pkg'), '1.1');
+		assert.strictEqual(versionFromTag('release-2.0rc1', 'demo-pkg'), '2.0rc1');
+		assert.strictEqual(versionFromTag('other-tool-1.1.0', 'demo-pkg'), undefined);
+	});
+
+	test('github: releases between the installed and latest versions', async () => {
+		const source = new GitHubReleasesSource({ apiUrl, getToken: async () => 'secret' });
+		const result = await source.find(REQUEST);
+		assert.deepStrictEqual(result?.notes.map((note) => note.version), ['1.2.0', '1.1.0']);
+		assert.strictEqual(result?.notes[0].date, '2024-05-01');
+		assert.strictEqual(result?.sourceUrl, 'https://github.com/acme/demo-pkg/releases');
+		assert.strictEqual(authorization[authorization.length - 1], 'Bearer secret');
+		assert.strictEqual(await source.find({ ...REQUEST, projectUrls: {} }), undefined);
+	});
+
+	test('changelog: markdown and reStructuredText sections', () => {
+		const markdown = extractChangelogSections(metadataDescription(METADATA), REQUEST);
+		assert.deepStrictEqual(markdown.map((note) => [note.version, note.body, note.date]), [
+			['1.2.0', '- Made it faster', '2024-05-01'],
+			['1.1.0', '- Fixed bugs', undefined],
+		]);
+		const rst = extractChangelogSections('Changes\n=======\n\nv1.1.0\n------\n\n* Fixed\n\n1.0.0\n-----\n\n* First\n', REQUEST);
+		assert.deepStrictEqual(rst.map((note) => [note.version, note.body]), [['1.1.0', '* Fixed']]);
+	});
+
+	test('metadata: folded Description header', () => {
+		const folded = 'Metadata-Version: 1.1\nName: old\nDescription: Old style\n        |\n        1.1.0\n        -----\nPlatform: any\n';
+		assert.strictEqual(metadataDescription(folded), 'Old style\n\n1.1.0\n-----');
+	});
+
+	test('long description source and formatting', async () => {
+		const source = new LongDescriptionChangelogSource(async (name, version) => version === '1.2.0' ? METADATA : undefined);
+		const result = await source.find(REQUEST);
+		assert.strictEqual(result?.notes.length, 2);
+		assert.strictEqual(result?.source, 'the changelog in the 1.2.0 project description');
+		const markdown = formatReleaseNotes(REQUEST, result);
+		assert.ok(markdown.startsWith('# demo-pkg 1.0.0 → 1.2.0'));
+		assert.ok(markdown.includes('## 1.1.0'));
+		assert.ok(formatReleaseNotes(REQUEST).includes('[Source](https://github.com/acme/demo-pkg.git)'));
+	});
+
+	test('distribution source: CHANGELOG files in the sdist or wheel', async () => {
+		const download = (filename: string) => async () => {
+			const file = { filename, url: `${apiUrl}/files/${filename}`, yanked: false };
+			return { filename, data: await fetchDistribution(file, { maxSize: 1024 * 1024 }) };
+		};
+		const sdist = await new DistributionChangelogSource(download('demo_pkg-1.2.0.tar.gz')).find(REQUEST);
+		assert.strictEqual(sdist?.source, 'CHANGES.rst in demo_pkg-1.2.0.tar.gz');
+		assert.deepStrictEqual(sdist?.notes.map((note) => [note.version, note.body]), [['1.2.0', '- Made it faster'], ['1.1.0', '- Fixed bugs']]);
+
+		const wheel = await new DistributionChangelogSource(download('demo_pkg-1.2.0-py3-none-any.whl')).find(REQUEST);
+		assert.strictEqual(wheel?.source, 'CHANGELOG.md in demo_pkg-1.2.0-py3-none-any.whl');
+		assert.deepStrictEqual(wheel?.notes.map((note) => note.version), ['1.2.0']);
+
+		assert.strictEqual(await new DistributionChangelogSource(async () => undefined).find(REQUEST), undefined);
+	});
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { getPolicySpecifier } from '@/modules/UpdatePolicy';
+
+suite('Update Policy Test Suite', () => {
+	test('pin: specifier with or without the package name', () => {
+		assert.strictEqual(getPolicySpecifier('numpy', { pin: '<2' }, '1.26.4'), '<2');
+		assert.strictEqual(getPolicySpecifier('numpy', { pin: 'numpy<2' }, '1.26.4'), '<2');
+		assert.strictEqual(getPolicySpecifier('Django', { pin: 'django >=4.2, <5' }, '4.2.1'), '>=4.2, <5');
+	});
+
+	test('cap: relative to the installed version', () => {
+		assert.strictEqual(getPolicySpecifier('requests', { cap: 'minor' }, '2.31.0'), '==2.*');
+		assert.strictEqual(getPolicySpecifier('requests', { cap: 'patch' }, '2.31.0'), '==2.31.*');
+		assert.strictEqual(getPolicySpecifier('calver', { cap: 'minor' }, '1!2024.1'), '==1!2024.*');
+		assert.strictEqual(getPolicySpecifier('odd', { cap: 'minor' }, 'not-a-version'), undefined);
+	});
+
+	test('pin and cap combine, rules without constraints have none', () => {
+		assert.strictEqual(getPolicySpecifier('numpy', { pin: '<2', cap: 'patch' }, '1.26.4'), '<2,==1.26.*');
+		assert.strictEqual(getPolicySpecifier('numpy', { ignore: true }, '1.26.4'), undefined);
+		assert.strictEqual(getPolicySpecifier('numpy', { reason: 'no rule' }, '1.26.4'), undefined);
+	});
+});
@@ -0,0 +1,378 @@
+/**
+ * PEP 440 version parsing, ordering and specifier matching.
+ * https://peps.python.org/pep-0440/
+ */
+
+export interface Version {
+    epoch: number;
+    release: number[];
+    /** Normalized pre-release: `a`, `b` or `rc` with its number */
+    pre?: [string, number];
+    post?: number;
+    dev?: number;
+    local?: (string | number)[];
+}
+
+export type SpecifierOperator = '~=' | '==' | '!=' | '<=' | '>=' | '<' | '>' | '===';
+
+export interface Specifier {
+    operator: SpecifierOperator;
+    version: string;
+    /** `==1.2.*` / `!=1.2.*` style prefix match */
+    wildcard: boolean;
+}
+
+export type UpdateType = 'major' | 'minor' | 'patch';
+
+export interface MatchOptions {
+    /**
+     * Accept pre-releases. By default they only match when the specifier itself names a pre-release.
+     */
+    prereleases?: boolean;
+}
+
+const VERSION_PATTERN = new RegExp(
+    '^\\s*v?' +
+    '(?:([0-9]+)!)?' +                                                           // epoch
+    '([0-9]+(?:\\.[0-9]+)*)' +                                                    // release
+    '(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?([0-9]+)?)?' +               // pre
+    '(?:-([0-9]+)|[-_.]?(post|rev|r)[-_.]?([0-9]+)?)?' +                          // post
+    '(?:[-_.]?(dev)[-_.]?([0-9]+)?)?' +                                           // dev
+    '(?:\\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?' +                                    // local
+    '\\s*$',
+    'i'
+);
+
+const SPECIFIER_PATTERN = /^\s*(~=|===|==|!=|<=|>=|<|>)\s*([^\s,;]+)\s*$/;
+
+const PRE_RELEASE_ALIASES: Record<string, string> = {
+    a: 'a', alpha: 'a',
+    b: 'b', beta: 'b',
+    c: 'rc', rc: 'rc', pre: 'rc', preview: 'rc',
+};
+
+const PRE_RELEASE_ORDER = ['a', 'b', 'rc'];
+
+export function parseVersion(version: string): Version | null {
+    const match = VERSION_PATTERN.exec(version);
+    if (!match) {
+        return null;
+    }
+    const [, epoch, release, preLabel, preNumber, implicitPost, postLabel, postNumber, devLabel, devNumber, local] = match;
+    const out: Version = {
+        epoch: epoch ? Number(epoch) : 0,
+        release: release.split('.').map(Number),
+    };
+    if (preLabel) {
+        out.pre = [PRE_RELEASE_ALIASES[preLabel.toLowerCase()], Number(preNumber || 0)];
+    }
+    if (implicitPost !== undefined) {
+        out.post = Number(implicitPost);
+    } else if (postLabel) {
+        out.post = Number(postNumber || 0);
+    }
+    if (devLabel) {
+        out.dev = Number(devNumber || 0);
+    }
+    if (local) {
+        out.local = local.toLowerCase().split(/[-_.]/).map((part) => /^[0-9]+$/.test(part) ? Number(part) : part);
+    }
+    return out;
+}
+
+export function isValidVersion(version: string) {
+    return parseVersion(version) !== null;
+}
+
+/**
+ * Canonical string form, e.g. `1.0-RC.1` becomes `1.0rc1`
+ */
+export function normalizeVersion(version: string | Version): string {
+    const parsed = typeof version === 'string' ? parseVersion(version) : version;
+    if (!parsed) {
+        return String(version);
+    }
+    let out = parsed.epoch ? `${parsed.epoch}!` : '';
+    out += parsed.release.join('.');
+    if (parsed.pre) {
+        out += `${parsed.pre[0]}${parsed.pre[1]}`;
+    }
+    if (parsed.post !== undefined) {
+        out += `.post${parsed.post}`;
+    }
+    if (parsed.dev !== undefined) {
+        out += `.dev${parsed.dev}`;
+    }
+    if (parsed.local) {
+        out += `+${parsed.local.join('.')}`;
+    }
+    return out;
+}
+
+function compareNumber(a: number, b: number) {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareRelease(a: number[], b: number[]) {
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const diff = compareNumber(a[i] || 0, b[i] || 0);
+        if (diff) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Rank of the pre-release segment: a dev-only release sorts before any pre-release,
+ * a final release after all of them.
+ */
+function preReleaseKey(version: Version): [number, number] {
+    if (version.pre) {
+        return [PRE_RELEASE_ORDER.indexOf(version.pre[0]), version.pre[1]];
+    }
+    if (version.dev !== undefined && version.post === undefined) {
+        return [-Infinity, 0];
+    }
+    return [Infinity, 0];
+}
+
+function compareLocal(a?: (string | number)[], b?: (string | number)[]) {
+    if (!a || !b) {
+        return a ? 1 : b ? -1 : 0;
+    }
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const left = a[i];
+        const right = b[i];
+        if (left === undefined || right === undefined) {
+            return left === undefined ? -1 : 1;
+        }
+        if (typeof left !== typeof right) {
+            // Numeric segments sort after alphanumeric ones
+            return typeof left === 'number' ? 1 : -1;
+        }
+        if (left !== right) {
+            return left < right ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+export function compareParsedVersions(a: Version, b: Version): number {
+    const [aPreRank, aPreNumber] = preReleaseKey(a);
+    const [bPreRank, bPreNumber] = preReleaseKey(b);
+    return compareNumber(a.epoch, b.epoch)
+        || compareRelease(a.release, b.release)
+        || compareNumber(aPreRank, bPreRank)
+        || compareNumber(aPreNumber, bPreNumber)
+        || compareNumber(a.post === undefined ? -Infinity : a.post, b.post === undefined ? -Infinity : b.post)
+        || compareNumber(a.dev === undefined ? Infinity : a.dev, b.dev === undefined ? Infinity : b.dev)
+        || compareLocal(a.local, b.local);
+}
+
+/**
+ * Order two version strings. Versions that are not valid PEP 440 sort before valid ones.
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = parseVersion(a);
+    const right = parseVersion(b);
+    if (left && right) {
+        return compareParsedVersions(left, right);
+    }
+    if (left || right) {
+        return left ? 1 : -1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function isVersionEqual(a: string, b: string) {
+    return compareVersions(a, b) === 0;
+}
+
+/**
+ * Whether `candidate` is strictly newer than `current`
+ */
+export function isNewerVersion(candidate: string, current: string) {
+    return compareVersions(candidate, current) > 0;
+}
+
+export function isPrerelease(version: string | Version) {
+    const parsed = typeof version === 'string' ? parseVersion(version) : version;
+    return !!parsed && (parsed.pre !== undefined || parsed.dev !== undefined);
+}
+
+/**
+ * Sort versions, newest first unless `descending` is false
+ */
+export function sortVersions(versions: string[], descending = true) {
+    return versions.slice().sort((a, b) => descending ? compareVersions(b, a) : compareVersions(a, b));
+}
+
+/**
+ * Size of the step from `current` to `candidate`: a new epoch or first release segment is major,
+ * a new second segment is minor and anything smaller (third segment, pre/post/dev) is patch.
+ * Null when the candidate is not newer or either version is invalid.
+ */
+export function getUpdateType(current: string, candidate: string): UpdateType | null {
+    const from = parseVersion(current);
+    const to = parseVersion(candidate);
+    if (!from || !to || compareParsedVersions(to, from) <= 0) {
+        return null;
+    }
+    if (from.epoch !== to.epoch || (from.release[0] || 0) !== (to.release[0] || 0)) {
+        return 'major';
+    }
+    if ((from.release[1] || 0) !== (to.release[1] || 0)) {
+        return 'minor';
+    }
+    return 'patch';
+}
+
+export function parseSpecifier(specifier: string): Specifier | null {
+    const match = SPECIFIER_PATTERN.exec(specifier);
+    if (!match) {
+        return null;
+    }
+    const operator = match[1] as SpecifierOperator;
+    let version = match[2];
+    if (operator === '===') {
+        return { operator, version, wildcard: false };
+    }
+    const wildcard = version.endsWith('.*');
+    if (wildcard) {
+        if (operator !== '==' && operator !== '!=') {
+            return null;
+        }
+        version = version.slice(0, -2);
+    }
+    const parsed = parseVersion(version);
+    if (!parsed) {
+        return null;
+    }
+    if (wildcard && (parsed.pre || parsed.post !== undefined || parsed.dev !== undefined || parsed.local)) {
+        return null;
+    }
+    if (operator === '~=' && (parsed.release.length < 2 || parsed.local)) {
+        return null;
+    }
+    if (parsed.local && operator !== '==' && operator !== '!=') {
+        return null;
+    }
+    return { operator, version, wildcard };
+}
+
+/**
+ * Parse a comma separated specifier set such as `>=1.4,!=1.5.*,<2`.
+ * An empty string is a valid set that matches everything, null means it is malformed.
+ */
+export function parseSpecifierSet(specifiers: string): Specifier[] | null {
+    if (!specifiers.trim()) {
+        return [];
+    }
+    const out: Specifier[] = [];
+    for (const part of specifiers.split(',')) {
+        const specifier = parseSpecifier(part);
+        if (!specifier) {
+            return null;
+        }
+        out.push(specifier);
+    }
+    return out;
+}
+
+function withoutLocal(version: Version): Version {
+    return { ...version, local: undefined };
+}
+
+function matchesPrefix(candidate: Version, prefix: Version) {
+    if (candidate.epoch !== prefix.epoch) {
+        return false;
+    }
+    return prefix.release.every((segment, i) => (candidate.release[i] || 0) === segment);
+}
+
+function matchesSpecifier(candidate: Version, raw: string, specifier: Specifier): boolean {
+    if (specifier.operator === '===') {
+        return raw.trim().toLowerCase() === specifier.version.toLowerCase();
+    }
+    const spec = parseVersion(specifier.version) as Version;
+    const publicCandidate = withoutLocal(candidate);
+
+    switch (specifier.operator) {
+        case '==':
+        case '!=': {
+            let equal: boolean;
+            if (specifier.wildcard) {
+                equal = matchesPrefix(candidate, spec);
+            } else {
+                equal = compareParsedVersions(spec.local ? candidate : publicCandidate, spec) === 0;
+            }
+            return specifier.operator === '==' ? equal : !equal;
+        }
+        case '~=': {
+            const prefix: Version = { epoch: spec.epoch, release: spec.release.slice(0, -1) };
+            return compareParsedVersions(publicCandidate, spec) >= 0 && matchesPrefix(candidate, prefix);
+        }
+        case '<=':
+            return compareParsedVersions(publicCandidate, spec) <= 0;
+        case '>=':
+            return compareParsedVersions(publicCandidate, spec) >= 0;
+        case '<': {
+            if (compareParsedVersions(publicCandidate, spec) >= 0) {
+                return false;
+            }
+            // <V never admits pre-releases of V itself unless V is a pre-release
+            if (!isPrerelease(spec) && isPrerelease(candidate)) {
+                return compareRelease(candidate.release, spec.release) !== 0 || candidate.epoch !== spec.epoch;
+            }
+            return true;
+        }
+        case '>': {
+            if (compareParsedVersions(publicCandidate, spec) <= 0) {
+                return false;
+            }
+            // >V never admits post-releases of V itself unless V is a post-release
+            const sameRelease = candidate.epoch === spec.epoch && compareRelease(candidate.release, spec.release) === 0;
+            return !(sameRelease && spec.post === undefined && candidate.post !== undefined);
+        }
+    }
+    return false;
+}
+
+/**
+ * Check a version against a specifier set string or parsed specifiers
+ */
+export function satisfies(version: string, specifiers: string | Specifier[], options: MatchOptions = {}): boolean {
+    const parsedSpecifiers = typeof specifiers === 'string' ? parseSpecifierSet(specifiers) : specifiers;
+    const candidate = parseVersion(version);
+    if (!parsedSpecifiers) {
+        return false;
+    }
+    if (!candidate) {
+        // Only arbitrary equality can match a version that does not follow PEP 440
+        return parsedSpecifiers.length > 0 && parsedSpecifiers.every((specifier) => {
+            return specifier.operator === '===' && matchesSpecifier({ epoch: 0, release: [] }, version, specifier);
+        });
+    }
+    const allowPrereleases = options.prereleases ?? parsedSpecifiers.some((specifier) => {
+        return specifier.operator !== '!=' && specifier.operator !== '===' && isPrerelease(specifier.version);
+    });
+    if (isPrerelease(candidate) && !allowPrereleases) {
+        return false;
+    }
+    return parsedSpecifiers.every((specifier) => matchesSpecifier(candidate, version, specifier));
+}
+
+/**
+ * Keep the versions that match, preferring final releases the way pip does:
+ * pre-releases are only used when nothing else matches.
+ */
+export function filterVersions(versions: string[], specifiers: string | Specifier[], options: MatchOptions = {}) {
+    const matches = versions.filter((version) => satisfies(version, specifiers, options));
+    if (matches.length || options.prereleases !== undefined) {
+        return matches;
+    }
+    return versions.filter((version) => satisfies(version, specifiers, { prereleases: true }));
+}
@@ -0,0 +1,215 @@
+/**
+ * PEP 508 requirement strings and environment markers.
+ * https://peps.python.org/pep-0508/
+ */
+import { parseSpecifier, parseSpecifierSet, parseVersion, satisfies } from './pep440';
+
+export interface Requirement {
+    name: string;
+    extras: string[];
+    /** Version specifiers as written, without parentheses, e.g. `>=2,<4` */
+    specifier: string;
+    /** Direct reference after `@` */
+    url?: string;
+    marker?: string;
+}
+
+/** Marker variables and their values, as found in `pip inspect`'s `environment` */
+export type MarkerEnvironment = Record<string, string>;
+
+const REQUIREMENT_PATTERN = /^\s*([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[([^\]]*)\])?\s*(.*)$/;
+
+/**
+ * Parse a requirement such as `requests[socks]>=2.31; python_version >= "3.8"`, null when it is not one
+ */
+export function parseRequirement(text: string): Requirement | null {
+    const match = REQUIREMENT_PATTERN.exec(text);
+    if (!match) {
+        return null;
+    }
+    const extras = (match[2] || '').split(',').map((extra) => extra.trim()).filter(Boolean);
+    let rest = match[3].trim();
+    let marker: string | undefined;
+    let url: string | undefined;
+
+    if (rest.startsWith('@')) {
+        // A URL may contain `;`, the marker separator needs whitespace before it
+        const separator = rest.search(/\s;/);
+        url = (separator < 0 ? rest.slice(1) : rest.slice(1, separator)).trim();
+        rest = separator < 0 ? '' : rest.slice(separator).trim();
+    }
+    const semicolon = rest.indexOf(';');
+    if (semicolon >= 0) {
+        marker = rest.slice(semicolon + 1).trim() || undefined;
+        rest = rest.slice(0, semicolon).trim();
+    }
+    if (url === undefined && rest.startsWith('@')) {
+        return null;
+    }
+
+    const specifier = rest.replace(/^\((.*)\)$/, '$1').replace(/\s+/g, '');
+    if (specifier && !parseSpecifierSet(specifier)) {
+        return null;
+    }
+    return { name: match[1], extras, specifier, url, marker };
+}
+
+type MarkerToken = { type: 'string' | 'variable' | 'op' | 'paren'; value: string };
+
+type MarkerNode =
+    | { type: 'and' | 'or'; left: MarkerNode; right: MarkerNode }
+    | { type: 'compare'; left: MarkerToken; op: string; right: MarkerToken };
+
+const MARKER_TOKEN = /\s*(?:(\()|(\))|'([^']*)'|"([^"]*)"|(===|==|!=|<=|>=|~=|<|>)|(not\s+in\b)|([A-Za-z_][A-Za-z0-9_.]*))/y;
+
+function tokenizeMarker(marker: string): MarkerToken[] {
+    const tokens: MarkerToken[] = [];
+    MARKER_TOKEN.lastIndex = 0;
+    while (MARKER_TOKEN.lastIndex < marker.length) {
+        if (!marker.slice(MARKER_TOKEN.lastIndex).trim()) {
+            break;
+        }
+        const match = MARKER_TOKEN.exec(marker);
+        if (!match) {
+            throw new Error(`Invalid marker: ${marker}`);
+        }
+        if (match[1] || match[2]) {
+            tokens.push({ type: 'paren', value: match[1] || match[2] });
+        } else if (match[3] !== undefined || match[4] !== undefined) {
+            tokens.push({ type: 'string', value: match[3] ?? match[4] });
+        } else if (match[5]) {
+            tokens.push({ type: 'op', value: match[5] });
+        } else if (match[6]) {
+            tokens.push({ type: 'op', value: 'not in' });
+        } else if (match[7] === 'in') {
+            tokens.push({ type: 'op', value: 'in' });
+        } else {
+            tokens.push({ type: 'variable', value: match[7] });
+        }
+    }
+    return tokens;
+}
+
+function parseMarker(marker: string): MarkerNode {
+    const tokens = tokenizeMarker(marker);
+    let position = 0;
+    const fail = (): never => {
+        throw new Error(`Invalid marker: ${marker}`);
+    };
+    const peek = () => tokens[position];
+
+    const parseValue = (): MarkerToken => {
+        const token = tokens[position++];
+        if (!token || (token.type !== 'string' && token.type !== 'variable') || token.value === 'and' || token.value === 'or') {
+            return fail();
+        }
+        return token;
+    };
+    const parseAtom = (): MarkerNode => {
+        if (peek()?.type === 'paren' && peek().value === '(') {
+            position++;
+            const node = parseOr();
+            if (tokens[position++]?.value !== ')') {
+                fail();
+            }
+            return node;
+        }
+        const left = parseValue();
+        const op = tokens[position++];
+        if (op?.type !== 'op') {
+            return fail();
+        }
+        return { type: 'compare', left, op: op.value, right: parseValue() };
+    };
+    const parseAnd = (): MarkerNode => {
+        let node = parseAtom();
+        while (peek()?.type === 'variable' && peek().value === 'and') {
+            position++;
+            node = { type: 'and', left: node, right: parseAtom() };
+        }
+        return node;
+    };
+    const parseOr = (): MarkerNode => {
+        let node = parseAnd();
+        while (peek()?.type === 'variable' && peek().value === 'or') {
+            position++;
+            node = { type: 'or', left: node, right: parseAnd() };
+        }
+        return node;
+    };
+
+    const node = parseOr();
+    if (position !== tokens.length) {
+        fail();
+    }
+    return node;
+}
+
+function compareMarkerValues(left: string, op: string, right: string): boolean {
+    switch (op) {
+        case 'in':
+            return right.includes(left);
+        case 'not in':
+            return !right.includes(left);
+    }
+    // Version comparison when both sides allow it, plain string comparison otherwise
+    if (op !== '===' && parseVersion(left) && parseSpecifier(`${op}${right}`)) {
+        return satisfies(left, `${op}${right}`, { prereleases: true });
+    }
+    switch (op) {
+        case '==':
+        case '===':
+            return left === right;
+        case '!=':
+            return left !== right;
+        case '<':
+            return left < right;
+        case '<=':
+            return left <= right;
+        case '>':
+            return left > right;
+        case '>=':
+            return left >= right;
+    }
+    return false;
+}
+
+function evaluateNode(node: MarkerNode, environment: MarkerEnvironment): boolean {
+    if (node.type !== 'compare') {
+        return node.type === 'and'
+            ? evaluateNode(node.left, environment) && evaluateNode(node.right, environment)
+            : evaluateNode(node.left, environment) || evaluateNode(node.right, environment);
+    }
+    const isExtra = node.left.value === 'extra' || node.right.value === 'extra';
+    const resolve = (token: MarkerToken) => {
+        const value = token.type === 'variable' ? environment[token.value] ?? '' : token.value;
+        // Extra names compare in normalized form
+        return isExtra ? value.toLowerCase().replace(/[-_.]+/g, '-') : value;
+    };
+    return compareMarkerValues(resolve(node.left), node.op, resolve(node.right));
+}
+
+/**
+ * Whether a marker holds in an environment. Variables the environment lacks are empty strings,
+ * so `extra == "socks"` is false unless `extra` is set. A marker that does not parse holds.
+ */
+export function evaluateMarker(marker: string, environment: MarkerEnvironment): boolean {
+    try {
+        return evaluateNode(parseMarker(marker), environment);
+    } catch {
+        return true;
+    }
+}
+
+/**
+ * The extras a marker requires, e.g. `socks` for `extra == "socks"`
+ */
+export function markerExtras(marker: string): string[] {
+    const extras: string[] = [];
+    const pattern = /\bextra\s*==\s*(?:'([^']*)'|"([^"]*)")|(?:'([^']*)'|"([^"]*)")\s*==\s*extra\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(marker))) {
+        extras.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+    }
+    return extras;
+}